@@ -1,7 +1,16 @@
 import alchemy from "alchemy";
-import { Assets, KVNamespace, Worker, WranglerJson } from "alchemy/cloudflare";
+import {
+	Assets,
+	D1Database,
+	KVNamespace,
+	Queue,
+	R2Bucket,
+	Worker,
+	WranglerJson,
+} from "alchemy/cloudflare";
 import { GitHubComment } from "alchemy/github";
 import { CloudflareStateStore } from "alchemy/state";
+import type { QueueJob } from "./src/types.ts";
 
 const app = await alchemy("unletter", {
 	stateStore: (scope) => new CloudflareStateStore(scope),
@@ -19,22 +28,64 @@ const dataKV = await KVNamespace("data", {
 	title: "unletter-data",
 });
 
+const db = await D1Database("db", {
+	name: "unletter-db",
+	migrationsDir: "./migrations",
+});
+
+const blobs = await R2Bucket("blobs", {
+	name: "unletter-blobs",
+});
+
+const webhookQueue = await Queue<QueueJob>("webhooks", {
+	name: "unletter-webhooks",
+});
+
 export const worker = await Worker("worker", {
 	entrypoint: "src/worker.ts",
 	bindings: {
 		ASSETS: staticAssets,
 		WAITLIST: waitlistKV,
 		DATA: dataKV,
+		DB: db,
+		BLOBS: blobs,
+		WEBHOOKS: webhookQueue,
 		ADMIN_API_KEY: alchemy.secret(
 			process.env.ADMIN_API_KEY || "change-me-in-production",
 		),
 		WEBHOOK_SECRET: alchemy.secret(
 			process.env.WEBHOOK_SECRET || "change-me-in-production",
 		),
+		// Previous webhook secret, accepted alongside WEBHOOK_SECRET during rotation
+		WEBHOOK_SECRET_PREVIOUS: alchemy.secret(
+			process.env.WEBHOOK_SECRET_PREVIOUS || "",
+		),
+		MAILGUN_SIGNING_KEY: alchemy.secret(
+			process.env.MAILGUN_SIGNING_KEY || "change-me-in-production",
+		),
+		// Accept unsigned inbound.new requests that only carry the static token
+		ALLOW_LEGACY_WEBHOOK_TOKEN:
+			process.env.ALLOW_LEGACY_WEBHOOK_TOKEN || "false",
 		JWT_SECRET: alchemy.secret(
 			process.env.JWT_SECRET || "change-me-in-production",
 		),
+		IMAGE_PROXY_SECRET: alchemy.secret(
+			process.env.IMAGE_PROXY_SECRET || "change-me-in-production",
+		),
 	},
+	// Outbound webhook and WebSub deliveries. Backoff and giving up are handled
+	// by the consumer, so the queue's own retry limit is only a backstop.
+	eventSources: [
+		{
+			queue: webhookQueue,
+			settings: {
+				batchSize: 10,
+				maxRetries: 10,
+			},
+		},
+	],
+	// Hourly retention cleanup
+	crons: ["0 * * * *"],
 	domains: ["unletter.app"],
 });
 
@@ -0,0 +1,23 @@
+-- Indexes that used to live in KV as JSON arrays (user:{id}:feeds and
+-- feed:{id}:emails). Rows are inserted individually, so concurrent writes
+-- never clobber each other.
+
+CREATE TABLE IF NOT EXISTS user_feeds (
+	user_id TEXT NOT NULL,
+	feed_id TEXT NOT NULL,
+	created_at TEXT NOT NULL,
+	PRIMARY KEY (user_id, feed_id)
+);
+
+CREATE INDEX IF NOT EXISTS user_feeds_by_date
+	ON user_feeds (user_id, created_at, feed_id);
+
+CREATE TABLE IF NOT EXISTS feed_emails (
+	feed_id TEXT NOT NULL,
+	email_id TEXT NOT NULL,
+	received_at TEXT NOT NULL,
+	PRIMARY KEY (feed_id, email_id)
+);
+
+CREATE INDEX IF NOT EXISTS feed_emails_by_date
+	ON feed_emails (feed_id, received_at DESC, email_id DESC);
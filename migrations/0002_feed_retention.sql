@@ -0,0 +1,12 @@
+-- Feeds with a retention policy. Feeds without a row keep everything. The
+-- scheduled cleanup visits the least recently pruned feeds first.
+
+CREATE TABLE IF NOT EXISTS feed_retention (
+	feed_id TEXT PRIMARY KEY,
+	max_items INTEGER,
+	max_age_days INTEGER,
+	last_pruned_at TEXT NOT NULL DEFAULT ''
+);
+
+CREATE INDEX IF NOT EXISTS feed_retention_by_pruned
+	ON feed_retention (last_pruned_at);
@@ -0,0 +1,13 @@
+-- Emails held back by a feed's quarantine rules. They are stored like any
+-- other email but only enter feed_emails once released.
+
+CREATE TABLE IF NOT EXISTS quarantined_emails (
+	feed_id TEXT NOT NULL,
+	email_id TEXT NOT NULL,
+	rule_id TEXT,
+	quarantined_at TEXT NOT NULL,
+	PRIMARY KEY (feed_id, email_id)
+);
+
+CREATE INDEX IF NOT EXISTS quarantined_emails_by_date
+	ON quarantined_emails (feed_id, quarantined_at DESC, email_id DESC);
@@ -0,0 +1,4 @@
+-- Emails the owner has hidden stay stored and manageable through the API but
+-- are left out of the rendered feed.
+
+ALTER TABLE feed_emails ADD COLUMN hidden INTEGER NOT NULL DEFAULT 0;
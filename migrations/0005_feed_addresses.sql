@@ -0,0 +1,12 @@
+-- Vanity aliases ({alias}@unletter.app). The primary key makes every alias
+-- globally unique. Aliases a feed has moved away from can stay here so mail
+-- sent to the old address is still delivered.
+
+CREATE TABLE IF NOT EXISTS feed_addresses (
+	local_part TEXT PRIMARY KEY,
+	feed_id TEXT NOT NULL,
+	created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS feed_addresses_by_feed
+	ON feed_addresses (feed_id);
@@ -0,0 +1,17 @@
+-- Per-feed sequence numbers in arrival order. Archive pages (RFC 5005) are
+-- fixed seq ranges, so a complete page never changes when later mail lands
+-- or older mail is pruned. Existing rows are numbered by received_at.
+
+ALTER TABLE feed_emails ADD COLUMN seq INTEGER;
+
+UPDATE feed_emails SET seq = numbered.seq
+FROM (
+	SELECT feed_id, email_id,
+		ROW_NUMBER() OVER (PARTITION BY feed_id ORDER BY received_at, email_id) AS seq
+	FROM feed_emails
+) AS numbered
+WHERE feed_emails.feed_id = numbered.feed_id
+	AND feed_emails.email_id = numbered.email_id;
+
+CREATE INDEX IF NOT EXISTS feed_emails_by_seq
+	ON feed_emails (feed_id, seq);
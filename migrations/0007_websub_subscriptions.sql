@@ -0,0 +1,19 @@
+-- WebSub subscriptions to feed topics. A callback can subscribe to the same
+-- feed in several formats, so rows are keyed by topic URL and callback.
+
+CREATE TABLE IF NOT EXISTS websub_subscriptions (
+	topic TEXT NOT NULL,
+	callback TEXT NOT NULL,
+	feed_id TEXT NOT NULL,
+	format TEXT NOT NULL,
+	secret TEXT,
+	expires_at TEXT NOT NULL,
+	created_at TEXT NOT NULL,
+	PRIMARY KEY (topic, callback)
+);
+
+CREATE INDEX IF NOT EXISTS websub_subscriptions_by_feed
+	ON websub_subscriptions (feed_id, expires_at);
+
+CREATE INDEX IF NOT EXISTS websub_subscriptions_by_expiry
+	ON websub_subscriptions (expires_at);
@@ -0,0 +1,22 @@
+-- Delivery log for outbound feed webhooks. Rows are written when a delivery
+-- is queued and updated after every attempt; the hourly cron drops old ones.
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+	id TEXT PRIMARY KEY,
+	feed_id TEXT NOT NULL,
+	webhook_id TEXT NOT NULL,
+	event TEXT NOT NULL,
+	email_id TEXT NOT NULL,
+	status TEXT NOT NULL,
+	attempts INTEGER NOT NULL DEFAULT 0,
+	last_status_code INTEGER,
+	last_error TEXT,
+	created_at TEXT NOT NULL,
+	updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_by_webhook
+	ON webhook_deliveries (feed_id, webhook_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS webhook_deliveries_by_date
+	ON webhook_deliveries (created_at);
@@ -0,0 +1,18 @@
+-- Inbox feeds pass mail on to sub-feeds, one per mailing list, sender or
+-- platform. Each route key maps to the feed that currently receives it;
+-- merging and splitting sub-feeds repoints rows here.
+
+CREATE TABLE IF NOT EXISTS inbox_routes (
+	inbox_id TEXT NOT NULL,
+	route_key TEXT NOT NULL,
+	feed_id TEXT NOT NULL,
+	label TEXT NOT NULL,
+	created_at TEXT NOT NULL,
+	PRIMARY KEY (inbox_id, route_key)
+);
+
+CREATE INDEX IF NOT EXISTS inbox_routes_by_feed
+	ON inbox_routes (feed_id);
+
+-- The route an email arrived through, so a split can take its mail along
+ALTER TABLE feed_emails ADD COLUMN route_key TEXT;
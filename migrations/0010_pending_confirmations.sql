@@ -0,0 +1,19 @@
+-- Double opt-in emails waiting for the user to confirm. They are kept out of
+-- feed_emails; rows go away once confirmed or dismissed.
+
+CREATE TABLE IF NOT EXISTS pending_confirmations (
+	email_id TEXT PRIMARY KEY,
+	feed_id TEXT NOT NULL,
+	user_id TEXT NOT NULL,
+	url TEXT NOT NULL,
+	platform TEXT,
+	subject TEXT NOT NULL,
+	sender TEXT NOT NULL,
+	received_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS pending_confirmations_by_user
+	ON pending_confirmations (user_id, received_at DESC);
+
+CREATE INDEX IF NOT EXISTS pending_confirmations_by_feed
+	ON pending_confirmations (feed_id);
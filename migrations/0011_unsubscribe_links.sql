@@ -0,0 +1,13 @@
+-- Unsubscribe options from the List-Unsubscribe headers (RFC 2369, RFC 8058)
+-- of each sender that has mailed a feed. The newest message's headers win.
+
+CREATE TABLE IF NOT EXISTS unsubscribe_links (
+	feed_id TEXT NOT NULL,
+	sender TEXT NOT NULL,
+	url TEXT,
+	mailto TEXT,
+	one_click INTEGER NOT NULL DEFAULT 0,
+	updated_at TEXT NOT NULL,
+	unsubscribed_at TEXT,
+	PRIMARY KEY (feed_id, sender)
+);
@@ -0,0 +1,16 @@
+-- Inbound webhook verification failures, counted per minute, provider and
+-- reason rather than stored one row per request, so unauthenticated traffic
+-- can't drive write volume. The hourly cron drops rows older than 7 days.
+
+CREATE TABLE IF NOT EXISTS webhook_failures (
+	minute TEXT NOT NULL,
+	provider TEXT NOT NULL,
+	reason TEXT NOT NULL,
+	count INTEGER NOT NULL,
+	last_ip TEXT NOT NULL,
+	last_seen TEXT NOT NULL,
+	PRIMARY KEY (minute, provider, reason)
+);
+
+CREATE INDEX IF NOT EXISTS webhook_failures_by_date
+	ON webhook_failures (last_seen);
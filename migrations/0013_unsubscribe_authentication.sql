@@ -0,0 +1,9 @@
+-- Whether a sender's saved List-Unsubscribe links came from a message whose
+-- DKIM signature from the sender's domain covers them. One-click needs it
+-- (RFC 8058 section 4), and unauthenticated mail can't replace such links.
+-- Links saved before were never checked, so they lose one-click until the
+-- sender's next signed message.
+
+ALTER TABLE unsubscribe_links ADD COLUMN authenticated INTEGER NOT NULL DEFAULT 0;
+
+UPDATE unsubscribe_links SET one_click = 0;
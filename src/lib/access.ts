@@ -0,0 +1,48 @@
+import { nanoid } from "nanoid";
+import type { Feed, FeedVisibility } from "../types.ts";
+import { timingSafeEqual } from "./auth.ts";
+
+// Access control for public feed URLs. Private feeds need their secret token
+// as a `token` query parameter on every feed, web view and attachment URL, so
+// readers that can't send headers still work. Rotating the token invalidates
+// every URL handed out before.
+
+const ACCESS_TOKEN_LENGTH = 32;
+
+export const BASE_URL = "https://unletter.app";
+
+export function generateAccessToken(): string {
+	return nanoid(ACCESS_TOKEN_LENGTH);
+}
+
+export function isFeedVisibility(value: unknown): value is FeedVisibility {
+	return value === "public" || value === "private";
+}
+
+export function isPrivateFeed(feed: Feed): boolean {
+	return feed.visibility === "private";
+}
+
+export function hasFeedAccess(feed: Feed, token: string | null): boolean {
+	if (!isPrivateFeed(feed)) {
+		return true;
+	}
+	return (
+		!!token && !!feed.accessToken && timingSafeEqual(token, feed.accessToken)
+	);
+}
+
+// Absolute URL for a path under /feeds/{id}, carrying the token when needed
+export function feedUrl(feed: Feed, path = ""): string {
+	const url = `${BASE_URL}/feeds/${feed.id}${path}`;
+	return isPrivateFeed(feed) && feed.accessToken
+		? `${url}?token=${encodeURIComponent(feed.accessToken)}`
+		: url;
+}
+
+// Private feeds must never be stored by shared caches
+export function feedCacheControl(feed: Feed, maxAge: number): string {
+	return isPrivateFeed(feed)
+		? `private, max-age=${maxAge}`
+		: `public, max-age=${maxAge}`;
+}
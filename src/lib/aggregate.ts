@@ -0,0 +1,63 @@
+import type { Feed } from "../types.ts";
+import { BASE_URL } from "./access.ts";
+
+// Aggregate feeds merge a user's feeds into one subscription: every feed, or
+// the feeds in one folder. Folders are free-form labels on feeds (a feed can
+// be in several). Aggregates can include private feeds, so their URLs always
+// carry the user's aggregate token, which is separate from any feed token.
+
+export const MAX_FOLDERS_PER_FEED = 10;
+const MAX_FOLDER_LENGTH = 50;
+
+export interface FeedFolder {
+	name: string;
+	feedIds: string[];
+}
+
+// Validates a folder list from a request body: trimmed, unique, and free of
+// "/" so names fit in a URL path segment. Returns undefined when invalid.
+export function parseFolders(value: unknown): string[] | undefined {
+	if (value === null) {
+		return [];
+	}
+	if (!Array.isArray(value) || value.length > MAX_FOLDERS_PER_FEED) {
+		return undefined;
+	}
+
+	const folders = new Set<string>();
+	for (const entry of value) {
+		const name = typeof entry === "string" ? entry.trim() : "";
+		if (!name || name.length > MAX_FOLDER_LENGTH || name.includes("/")) {
+			return undefined;
+		}
+		folders.add(name);
+	}
+	return [...folders];
+}
+
+// Folders in use across the given feeds, sorted by name
+export function listFolders(feeds: Feed[]): FeedFolder[] {
+	const folders = new Map<string, string[]>();
+	for (const feed of feeds) {
+		for (const name of feed.folders ?? []) {
+			folders.set(name, [...(folders.get(name) ?? []), feed.id]);
+		}
+	}
+
+	return [...folders]
+		.map(([name, feedIds]) => ({ name, feedIds }))
+		.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Absolute URL of the all-feeds aggregate, or of one folder's
+export function aggregateUrl(
+	userId: string,
+	token: string,
+	folder?: string,
+	path = "",
+): string {
+	const base = folder
+		? `${BASE_URL}/aggregate/${userId}/folders/${encodeURIComponent(folder)}`
+		: `${BASE_URL}/aggregate/${userId}`;
+	return `${base}${path}?token=${encodeURIComponent(token)}`;
+}
@@ -0,0 +1,131 @@
+// Vanity email aliases for feeds. Every alias a feed has claimed, current or
+// kept from before a change, maps to the feed in the feed_addresses table.
+
+export const EMAIL_DOMAIN = "unletter.app";
+
+const ALIAS_PATTERN = /^[a-z0-9](?:[a-z0-9.-]{1,38}[a-z0-9])$/;
+
+// Role addresses and names that could pass for the service itself
+const RESERVED_ALIASES = new Set([
+	"abuse",
+	"admin",
+	"administrator",
+	"api",
+	"billing",
+	"contact",
+	"feeds",
+	"help",
+	"hostmaster",
+	"info",
+	"mail",
+	"mailer-daemon",
+	"no-reply",
+	"noreply",
+	"postmaster",
+	"root",
+	"security",
+	"support",
+	"system",
+	"unletter",
+	"webmaster",
+	"www",
+]);
+
+export type AliasValidation =
+	| { status: "ok"; alias: string }
+	| { status: "invalid"; error: string };
+
+export function validateAlias(value: unknown): AliasValidation {
+	if (typeof value !== "string") {
+		return { status: "invalid", error: "alias must be a string" };
+	}
+
+	const alias = value.trim().toLowerCase();
+	if (!ALIAS_PATTERN.test(alias) || alias.includes("..")) {
+		return {
+			status: "invalid",
+			error:
+				"alias must be 3-40 characters of letters, numbers, dots and hyphens, starting and ending with a letter or number",
+		};
+	}
+
+	if (RESERVED_ALIASES.has(alias)) {
+		return { status: "invalid", error: "That alias is reserved" };
+	}
+
+	return { status: "ok", alias };
+}
+
+export function aliasAddress(alias: string): string {
+	return `${alias}@${EMAIL_DOMAIN}`;
+}
+
+// Claims an alias for a feed. Returns false if another feed already holds it;
+// re-claiming one of the feed's own aliases succeeds.
+export async function claimAlias(
+	db: D1Database,
+	alias: string,
+	feedId: string,
+): Promise<boolean> {
+	const result = await db
+		.prepare(
+			`INSERT INTO feed_addresses (local_part, feed_id, created_at)
+			VALUES (?, ?, ?)
+			ON CONFLICT (local_part) DO NOTHING`,
+		)
+		.bind(alias, feedId, new Date().toISOString())
+		.run();
+
+	if (result.meta.changes > 0) {
+		return true;
+	}
+
+	return (await lookupAlias(db, alias)) === feedId;
+}
+
+export async function releaseAlias(
+	db: D1Database,
+	alias: string,
+	feedId: string,
+): Promise<void> {
+	await db
+		.prepare("DELETE FROM feed_addresses WHERE local_part = ? AND feed_id = ?")
+		.bind(alias, feedId)
+		.run();
+}
+
+export async function releaseFeedAliases(
+	db: D1Database,
+	feedId: string,
+): Promise<void> {
+	await db
+		.prepare("DELETE FROM feed_addresses WHERE feed_id = ?")
+		.bind(feedId)
+		.run();
+}
+
+// Returns the id of the feed an alias delivers to, if any
+export async function lookupAlias(
+	db: D1Database,
+	alias: string,
+): Promise<string | null> {
+	const row = await db
+		.prepare("SELECT feed_id FROM feed_addresses WHERE local_part = ?")
+		.bind(alias.toLowerCase())
+		.first<{ feed_id: string }>();
+	return row?.feed_id ?? null;
+}
+
+// Every alias that still delivers to the feed, current one included
+export async function listFeedAliases(
+	db: D1Database,
+	feedId: string,
+): Promise<string[]> {
+	const { results } = await db
+		.prepare(
+			"SELECT local_part FROM feed_addresses WHERE feed_id = ? ORDER BY created_at",
+		)
+		.bind(feedId)
+		.all<{ local_part: string }>();
+	return results.map((row) => row.local_part);
+}
@@ -0,0 +1,113 @@
+import type { Feed } from "../types.ts";
+import type { FeedFormat, FeedLinks } from "./formats.ts";
+
+// RFC 5005 paged feeds. Every email in feed_emails has a per-feed sequence
+// number; archive pages are fixed ranges of it (/feeds/{id}/archive/1-50),
+// aligned to the feed's page size. The subscription document holds the
+// newest page worth of emails and links to the newest complete archive page,
+// and each archive page links to its neighbours with prev-archive and
+// next-archive.
+
+export const DEFAULT_FEED_PAGE_SIZE = 50;
+export const MAX_FEED_PAGE_SIZE = 200;
+
+// Complete archive pages only change when one of their emails is hidden,
+// edited or deleted, so they're cached for longer and revalidated by ETag
+export const ARCHIVE_MAX_AGE = 60 * 60;
+
+const ARCHIVE_NAMESPACE = "http://purl.org/syndication/history/1.0";
+
+export interface ArchiveRange {
+	from: number;
+	to: number;
+}
+
+// Only archive pages link back to the subscription document
+export interface ArchiveLinks {
+	current?: string;
+	prev?: string;
+	next?: string;
+}
+
+export function isFeedPageSize(value: unknown): value is number {
+	return (
+		typeof value === "number" &&
+		Number.isInteger(value) &&
+		value >= 1 &&
+		value <= MAX_FEED_PAGE_SIZE
+	);
+}
+
+export function feedPageSize(feed: Feed): number {
+	return feed.pageSize ?? DEFAULT_FEED_PAGE_SIZE;
+}
+
+// Parses the from-to part of an archive URL. Only ranges that have been
+// handed out completely (to <= sequence) can be requested.
+export function parseArchiveRange(
+	from: string,
+	to: string,
+	sequence: number,
+): ArchiveRange | undefined {
+	const range = { from: Number(from), to: Number(to) };
+	if (
+		!Number.isSafeInteger(range.from) ||
+		!Number.isSafeInteger(range.to) ||
+		range.from < 1 ||
+		range.to < range.from ||
+		range.to - range.from >= MAX_FEED_PAGE_SIZE ||
+		range.to > sequence
+	) {
+		return undefined;
+	}
+	return range;
+}
+
+export function archivePath(range: ArchiveRange, format: FeedFormat): string {
+	return `/archive/${range.from}-${range.to}/${format}`;
+}
+
+// The range shown by the subscription document
+export function currentRange(sequence: number, pageSize: number): ArchiveRange {
+	return { from: Math.max(1, sequence - pageSize + 1), to: sequence };
+}
+
+// Newest page that is complete, if any
+export function newestArchive(
+	sequence: number,
+	pageSize: number,
+): ArchiveRange | undefined {
+	const pages = Math.floor(sequence / pageSize);
+	return pages > 0
+		? { from: (pages - 1) * pageSize + 1, to: pages * pageSize }
+		: undefined;
+}
+
+// Neighbouring pages of an archive page. The newer neighbour is only linked
+// once it is complete, so a page whose links are all in place never changes.
+export function archiveNeighbours(
+	range: ArchiveRange,
+	sequence: number,
+	pageSize: number,
+): { prev?: ArchiveRange; next?: ArchiveRange } {
+	const prev =
+		range.from > 1
+			? { from: Math.max(1, range.from - pageSize), to: range.from - 1 }
+			: undefined;
+	const next =
+		range.to + pageSize <= sequence
+			? { from: range.to + 1, to: range.to + pageSize }
+			: undefined;
+	return { prev, next };
+}
+
+// Marks a document as an archive page
+export const ARCHIVE_ELEMENT = `<fh:archive xmlns:fh="${ARCHIVE_NAMESPACE}"/>`;
+
+export function archiveFeedLinks(links: ArchiveLinks): FeedLinks {
+	return {
+		current: links.current,
+		"prev-archive": links.prev,
+		"next-archive": links.next,
+	};
+}
@@ -2,7 +2,7 @@ const ITERATIONS = 100000;
 const HASH_ALGORITHM = "SHA-256";
 const SALT_LENGTH = 16;
 
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
 	const bytes = new Uint8Array(buffer);
 	let binary = "";
 	for (let i = 0; i < bytes.length; i++) {
@@ -11,7 +11,7 @@ function arrayBufferToBase64(buffer: ArrayBuffer): string {
 	return btoa(binary);
 }
 
-function base64ToArrayBuffer(base64: string): ArrayBuffer {
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
 	const binary = atob(base64);
 	const bytes = new Uint8Array(binary.length);
 	for (let i = 0; i < binary.length; i++) {
@@ -82,14 +82,18 @@ export async function verifyPassword(
 
 	const computedHashBase64 = arrayBufferToBase64(hash);
 
-	// Constant-time comparison
-	if (computedHashBase64.length !== hashBase64.length) {
+	return timingSafeEqual(computedHashBase64, hashBase64);
+}
+
+// Constant-time string comparison
+export function timingSafeEqual(a: string, b: string): boolean {
+	if (a.length !== b.length) {
 		return false;
 	}
 
 	let result = 0;
-	for (let i = 0; i < computedHashBase64.length; i++) {
-		result |= computedHashBase64.charCodeAt(i) ^ hashBase64.charCodeAt(i);
+	for (let i = 0; i < a.length; i++) {
+		result |= a.charCodeAt(i) ^ b.charCodeAt(i);
 	}
 
 	return result === 0;
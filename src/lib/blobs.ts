@@ -0,0 +1,138 @@
+import { nanoid } from "nanoid";
+import type {
+	EmailAttachment,
+	InboundAttachment,
+	StoredEmail,
+} from "../types.ts";
+
+// R2-backed storage for email bodies and attachments. KV keeps the small
+// StoredEmail record; bodies are gzipped JSON and attachments are stored
+// as-is under the email's prefix:
+//   email/{email-id}/body
+//   email/{email-id}/attachment/{attachment-id}
+
+// Larger attachments are dropped rather than stored
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+export interface EmailBody {
+	html: string;
+	text: string;
+}
+
+function emailPrefix(emailId: string): string {
+	return `email/${emailId}/`;
+}
+
+function attachmentKey(emailId: string, attachmentId: string): string {
+	return `${emailPrefix(emailId)}attachment/${attachmentId}`;
+}
+
+async function gzip(value: string): Promise<ArrayBuffer> {
+	const stream = new Blob([value])
+		.stream()
+		.pipeThrough(new CompressionStream("gzip"));
+	return new Response(stream).arrayBuffer();
+}
+
+async function gunzip(stream: ReadableStream): Promise<string> {
+	return new Response(
+		stream.pipeThrough(new DecompressionStream("gzip")),
+	).text();
+}
+
+// Stores the body and returns its key for StoredEmail.bodyKey
+export async function putBody(
+	bucket: R2Bucket,
+	emailId: string,
+	body: EmailBody,
+): Promise<string> {
+	const key = `${emailPrefix(emailId)}body`;
+	await bucket.put(key, await gzip(JSON.stringify(body)), {
+		httpMetadata: { contentType: "application/json" },
+		customMetadata: { encoding: "gzip" },
+	});
+	return key;
+}
+
+// Returns the body of a stored email, whether it's in R2 or still inline
+export async function getBody(
+	bucket: R2Bucket,
+	email: StoredEmail,
+): Promise<EmailBody> {
+	if (!email.bodyKey) {
+		return { html: email.html, text: email.text };
+	}
+
+	const object = await bucket.get(email.bodyKey);
+	if (!object) {
+		return { html: "", text: "" };
+	}
+
+	const body = JSON.parse(await gunzip(object.body)) as Partial<EmailBody>;
+	return { html: body.html ?? "", text: body.text ?? "" };
+}
+
+export async function putAttachments(
+	bucket: R2Bucket,
+	emailId: string,
+	attachments: InboundAttachment[],
+): Promise<EmailAttachment[]> {
+	const stored: EmailAttachment[] = [];
+
+	for (const attachment of attachments) {
+		const size = attachment.content.byteLength;
+		if (size === 0 || size > MAX_ATTACHMENT_BYTES) {
+			console.warn(
+				`Skipping attachment "${attachment.filename}" on ${emailId} (${size} bytes)`,
+			);
+			continue;
+		}
+
+		const id = nanoid(12);
+		await bucket.put(attachmentKey(emailId, id), attachment.content, {
+			httpMetadata: { contentType: attachment.contentType },
+		});
+
+		stored.push({
+			id,
+			filename: attachment.filename,
+			contentType: attachment.contentType,
+			size,
+			contentId: attachment.contentId,
+			inline: attachment.inline,
+		});
+	}
+
+	return stored;
+}
+
+export async function getAttachment(
+	bucket: R2Bucket,
+	emailId: string,
+	attachmentId: string,
+): Promise<R2ObjectBody | null> {
+	return bucket.get(attachmentKey(emailId, attachmentId));
+}
+
+export async function deleteEmailBlobs(
+	bucket: R2Bucket,
+	emailId: string,
+): Promise<void> {
+	let cursor: string | undefined;
+	do {
+		const list = await bucket.list({ prefix: emailPrefix(emailId), cursor });
+		if (list.objects.length > 0) {
+			await bucket.delete(list.objects.map((object) => object.key));
+		}
+		cursor = list.truncated ? list.cursor : undefined;
+	} while (cursor);
+}
+
+// Content-Disposition with an ASCII fallback and RFC 5987 UTF-8 filename
+export function contentDisposition(
+	type: "inline" | "attachment",
+	filename: string,
+): string {
+	const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+	return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
@@ -0,0 +1,183 @@
+import type { ConfirmationRequest } from "./patterns.ts";
+
+// Subscription confirmations. Emails that patterns.ts recognizes as double
+// opt-in requests are stored but listed here instead of in the feed, so the
+// user can confirm them in one click. Confirming fetches the link from the
+// worker; feeds with autoConfirm do that on arrival for known platforms.
+
+const CONFIRM_TIMEOUT_MS = 10_000;
+
+// Platforms whose confirmation links are confirmed by a plain GET, so
+// autoConfirm may follow them without the user
+const AUTO_CONFIRM_PLATFORMS = new Set([
+	"substack",
+	"beehiiv",
+	"buttondown",
+	"convertkit",
+	"mailchimp",
+]);
+
+// Keep error messages short
+const MAX_ERROR_LENGTH = 200;
+
+export interface PendingConfirmation {
+	emailId: string;
+	feedId: string;
+	url: string;
+	platform?: string;
+	subject: string;
+	sender: string;
+	receivedAt: string;
+}
+
+export interface ConfirmAttempt {
+	ok: boolean;
+	statusCode?: number;
+	error?: string;
+}
+
+interface ConfirmationRow {
+	email_id: string;
+	feed_id: string;
+	url: string;
+	platform: string | null;
+	subject: string;
+	sender: string;
+	received_at: string;
+}
+
+function mapConfirmation(row: ConfirmationRow): PendingConfirmation {
+	return {
+		emailId: row.email_id,
+		feedId: row.feed_id,
+		url: row.url,
+		platform: row.platform ?? undefined,
+		subject: row.subject,
+		sender: row.sender,
+		receivedAt: row.received_at,
+	};
+}
+
+export async function addPendingConfirmation(
+	db: D1Database,
+	userId: string,
+	entry: Omit<PendingConfirmation, "url" | "platform">,
+	confirmation: ConfirmationRequest,
+): Promise<void> {
+	await db
+		.prepare(
+			`INSERT OR IGNORE INTO pending_confirmations
+				(email_id, feed_id, user_id, url, platform, subject, sender, received_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+		)
+		.bind(
+			entry.emailId,
+			entry.feedId,
+			userId,
+			confirmation.url,
+			confirmation.platform ?? null,
+			entry.subject,
+			entry.sender,
+			entry.receivedAt,
+		)
+		.run();
+}
+
+// Newest first
+export async function listPendingConfirmations(
+	db: D1Database,
+	userId: string,
+	limit: number,
+): Promise<PendingConfirmation[]> {
+	const { results } = await db
+		.prepare(
+			`SELECT email_id, feed_id, url, platform, subject, sender, received_at
+			FROM pending_confirmations WHERE user_id = ?
+			ORDER BY received_at DESC, email_id DESC LIMIT ?`,
+		)
+		.bind(userId, limit)
+		.all<ConfirmationRow>();
+
+	return results.map(mapConfirmation);
+}
+
+export async function getPendingConfirmation(
+	db: D1Database,
+	userId: string,
+	emailId: string,
+): Promise<PendingConfirmation | null> {
+	const row = await db
+		.prepare(
+			`SELECT email_id, feed_id, url, platform, subject, sender, received_at
+			FROM pending_confirmations WHERE email_id = ? AND user_id = ?`,
+		)
+		.bind(emailId, userId)
+		.first<ConfirmationRow>();
+
+	return row ? mapConfirmation(row) : null;
+}
+
+export async function removePendingConfirmation(
+	db: D1Database,
+	emailId: string,
+): Promise<void> {
+	await db
+		.prepare("DELETE FROM pending_confirmations WHERE email_id = ?")
+		.bind(emailId)
+		.run();
+}
+
+// Returns the email ids so the caller can delete the emails
+export async function clearFeedConfirmations(
+	db: D1Database,
+	feedId: string,
+): Promise<string[]> {
+	const { results } = await db
+		.prepare(
+			"DELETE FROM pending_confirmations WHERE feed_id = ? RETURNING email_id",
+		)
+		.bind(feedId)
+		.all<{ email_id: string }>();
+	return results.map((row) => row.email_id);
+}
+
+export async function moveFeedConfirmations(
+	db: D1Database,
+	fromFeedId: string,
+	toFeedId: string,
+): Promise<string[]> {
+	const { results } = await db
+		.prepare(
+			`UPDATE pending_confirmations SET feed_id = ?
+			WHERE feed_id = ? RETURNING email_id`,
+		)
+		.bind(toFeedId, fromFeedId)
+		.all<{ email_id: string }>();
+	return results.map((row) => row.email_id);
+}
+
+export function canAutoConfirm(confirmation: ConfirmationRequest): boolean {
+	return (
+		!!confirmation.platform && AUTO_CONFIRM_PLATFORMS.has(confirmation.platform)
+	);
+}
+
+// Follows the confirmation link the way a click would
+export async function confirmSubscription(
+	url: string,
+): Promise<ConfirmAttempt> {
+	try {
+		const response = await fetch(url, {
+			headers: { "user-agent": "unletter-confirmations" },
+			redirect: "follow",
+			signal: AbortSignal.timeout(CONFIRM_TIMEOUT_MS),
+		});
+		return {
+			ok: response.ok,
+			statusCode: response.status,
+			error: response.ok ? undefined : response.statusText || undefined,
+		};
+	} catch (error) {
+		return { ok: false, error: String(error).slice(0, MAX_ERROR_LENGTH) };
+	}
+}
@@ -0,0 +1,169 @@
+import type { InboundMessage } from "../types.ts";
+
+// Duplicate detection for inbound mail. A message is a duplicate when the
+// same provider redelivers the same provider id, when the same Message-ID
+// header arrives again, or when the same sender sends the same subject and
+// body within CONTENT_WINDOW_SECONDS. Provider ids are scoped by provider,
+// since each provider picks its own.
+
+const PROVIDER_ID_TTL_SECONDS = 30 * 24 * 60 * 60;
+const MESSAGE_ID_TTL_SECONDS = 90 * 24 * 60 * 60;
+const CONTENT_WINDOW_SECONDS = 24 * 60 * 60;
+const DUPLICATE_RECORD_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Duplicate records are keyed by this minus their time, so KV's ascending
+// key order lists the newest first
+const REVERSE_TIME_BASE = 10 ** 13;
+
+export type DuplicateReason = "provider_id" | "message_id" | "content";
+
+export interface DuplicateRecord {
+	emailId: string;
+	duplicateOf: string;
+	reason: DuplicateReason;
+	subject: string;
+	from: string;
+	receivedAt: string;
+}
+
+async function sha256Hex(value: string): Promise<string> {
+	const digest = await crypto.subtle.digest(
+		"SHA-256",
+		new TextEncoder().encode(value),
+	);
+	return [...new Uint8Array(digest)]
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join("");
+}
+
+function normalizedBody(message: InboundMessage): string {
+	const body =
+		message.text ||
+		message.html
+			.replace(/<style[\s\S]*?<\/style>/gi, "")
+			.replace(/<[^>]+>/g, " ");
+	return body.replace(/\s+/g, " ").trim();
+}
+
+export function normalizeMessageId(
+	value: string | undefined,
+): string | undefined {
+	const messageId = value?.trim().replace(/^<|>$/g, "").toLowerCase();
+	return messageId || undefined;
+}
+
+async function providerIdKey(
+	feedId: string,
+	provider: string,
+	providerId: string,
+): Promise<string> {
+	return `feed:${feedId}:provider-id:${provider}:${await sha256Hex(providerId)}`;
+}
+
+async function messageIdKey(
+	feedId: string,
+	messageId: string,
+): Promise<string> {
+	return `feed:${feedId}:message-id:${await sha256Hex(messageId)}`;
+}
+
+async function contentKey(
+	feedId: string,
+	message: InboundMessage,
+): Promise<string> {
+	const fingerprint = await sha256Hex(
+		[
+			message.from.email.toLowerCase(),
+			message.subject.trim(),
+			normalizedBody(message),
+		].join("\n"),
+	);
+	return `feed:${feedId}:content:${fingerprint}`;
+}
+
+// Returns the id of the email this message duplicates, if any
+export async function findDuplicate(
+	kv: KVNamespace,
+	feedId: string,
+	provider: string,
+	message: InboundMessage,
+): Promise<{ emailId: string; reason: DuplicateReason } | null> {
+	if (message.providerId) {
+		const existing = await kv.get(
+			await providerIdKey(feedId, provider, message.providerId),
+		);
+		if (existing) {
+			return { emailId: existing, reason: "provider_id" };
+		}
+	}
+
+	const messageId = normalizeMessageId(message.headers["message-id"]);
+	if (messageId) {
+		const existing = await kv.get(await messageIdKey(feedId, messageId));
+		if (existing) {
+			return { emailId: existing, reason: "message_id" };
+		}
+	}
+
+	const existing = await kv.get(await contentKey(feedId, message));
+	if (existing) {
+		return { emailId: existing, reason: "content" };
+	}
+
+	return null;
+}
+
+// Remembers a stored message so later deliveries of it are detected
+export async function rememberMessage(
+	kv: KVNamespace,
+	feedId: string,
+	provider: string,
+	message: InboundMessage,
+	emailId: string,
+): Promise<void> {
+	if (message.providerId) {
+		await kv.put(
+			await providerIdKey(feedId, provider, message.providerId),
+			emailId,
+			{ expirationTtl: PROVIDER_ID_TTL_SECONDS },
+		);
+	}
+
+	const messageId = normalizeMessageId(message.headers["message-id"]);
+	if (messageId) {
+		await kv.put(await messageIdKey(feedId, messageId), emailId, {
+			expirationTtl: MESSAGE_ID_TTL_SECONDS,
+		});
+	}
+
+	await kv.put(await contentKey(feedId, message), emailId, {
+		expirationTtl: CONTENT_WINDOW_SECONDS,
+	});
+}
+
+export async function recordDuplicate(
+	kv: KVNamespace,
+	feedId: string,
+	record: DuplicateRecord,
+): Promise<void> {
+	const time = Date.parse(record.receivedAt) || Date.now();
+	const reverseTime = String(REVERSE_TIME_BASE - time).padStart(13, "0");
+	await kv.put(
+		`feed:${feedId}:duplicates:${reverseTime}:${crypto.randomUUID()}`,
+		"",
+		{ metadata: record, expirationTtl: DUPLICATE_RECORD_TTL_SECONDS },
+	);
+}
+
+// Newest first; KV returns up to 1000 keys per list
+export async function listDuplicates(
+	kv: KVNamespace,
+	feedId: string,
+): Promise<DuplicateRecord[]> {
+	const list = await kv.list<DuplicateRecord>({
+		prefix: `feed:${feedId}:duplicates:`,
+	});
+	return list.keys
+		.map((key) => key.metadata)
+		.filter((record): record is DuplicateRecord => !!record);
+}
@@ -0,0 +1,187 @@
+import type { Feed } from "../types.ts";
+import type { FeedFormat } from "./formats.ts";
+
+// Rendered subscription documents, cached in KV per feed and format so polling
+// readers don't cost a KV read per email. Anything that changes what a feed
+// renders (new or released mail, edits, deletions, pruning, feed settings)
+// calls invalidateRenderedFeed. Archive pages aren't cached here; they are
+// cacheable by clients and CDNs instead.
+//
+// Aggregates are cached per user, folder and format too. Rather than finding
+// every folder a change touches, invalidating any of a user's feeds moves the
+// user's aggregate stamp, and cached aggregates rendered under an older stamp
+// are rendered again.
+
+const FORMATS: FeedFormat[] = ["rss", "atom", "json"];
+
+// Entries are dropped explicitly; the TTL only bounds anything missed
+const RENDERED_FEED_TTL = 24 * 60 * 60;
+
+// A missing invalidation time reads as now, which only costs readers a full
+// fetch, so it doesn't need to outlive feeds that stop changing
+const INVALIDATED_AT_TTL = 30 * 24 * 60 * 60;
+
+export interface RenderedFeed {
+	body: string;
+	etag: string;
+	// HTTP date of the feed's last invalidation before the render, served as
+	// Last-Modified
+	renderedAt: string;
+	// Feed sequence the document was rendered at
+	sequence: number;
+}
+
+function renderedFeedKey(feedId: string, format: FeedFormat): string {
+	return `feed:${feedId}:rendered:${format}`;
+}
+
+export interface RenderedAggregate {
+	body: string;
+	etag: string;
+	// ISO stamp of the user's last aggregate invalidation before the render
+	renderedAt: string;
+}
+
+function invalidatedAtKey(feedId: string): string {
+	return `feed:${feedId}:invalidated-at`;
+}
+
+// Folder names are never empty, so the all-feeds aggregate can't collide
+function renderedAggregateKey(
+	userId: string,
+	folder: string | undefined,
+	format: FeedFormat,
+): string {
+	return `user:${userId}:aggregate:${format}:${folder ?? ""}`;
+}
+
+function aggregateInvalidatedAtKey(userId: string): string {
+	return `user:${userId}:aggregate-invalidated-at`;
+}
+
+export async function getRenderedFeed(
+	kv: KVNamespace,
+	feedId: string,
+	format: FeedFormat,
+): Promise<RenderedFeed | null> {
+	return kv.get<RenderedFeed>(renderedFeedKey(feedId, format), "json");
+}
+
+export async function putRenderedFeed(
+	kv: KVNamespace,
+	feedId: string,
+	format: FeedFormat,
+	rendered: RenderedFeed,
+): Promise<void> {
+	await kv.put(renderedFeedKey(feedId, format), JSON.stringify(rendered), {
+		expirationTtl: RENDERED_FEED_TTL,
+	});
+}
+
+export async function invalidateRenderedFeed(
+	kv: KVNamespace,
+	feed: Pick<Feed, "id" | "userId">,
+): Promise<void> {
+	await Promise.all([
+		kv.put(invalidatedAtKey(feed.id), new Date().toUTCString(), {
+			expirationTtl: INVALIDATED_AT_TTL,
+		}),
+		...FORMATS.map((format) => kv.delete(renderedFeedKey(feed.id, format))),
+		invalidateAggregates(kv, feed.userId),
+	]);
+}
+
+// The renderedAt for a document rendered now
+export async function getRenderedAt(
+	kv: KVNamespace,
+	feedId: string,
+): Promise<string> {
+	return (await kv.get(invalidatedAtKey(feedId))) ?? new Date().toUTCString();
+}
+
+export async function invalidateAggregates(
+	kv: KVNamespace,
+	userId: string,
+): Promise<void> {
+	await kv.put(aggregateInvalidatedAtKey(userId), new Date().toISOString(), {
+		expirationTtl: INVALIDATED_AT_TTL,
+	});
+}
+
+// The renderedAt that cached aggregates must match. A missing stamp is
+// written, so aggregates rendered now can be served from the cache later.
+export async function getAggregateRenderedAt(
+	kv: KVNamespace,
+	userId: string,
+): Promise<string> {
+	const stamp = await kv.get(aggregateInvalidatedAtKey(userId));
+	if (stamp) {
+		return stamp;
+	}
+
+	const renderedAt = new Date().toISOString();
+	await kv.put(aggregateInvalidatedAtKey(userId), renderedAt, {
+		expirationTtl: INVALIDATED_AT_TTL,
+	});
+	return renderedAt;
+}
+
+export async function getRenderedAggregate(
+	kv: KVNamespace,
+	userId: string,
+	folder: string | undefined,
+	format: FeedFormat,
+): Promise<RenderedAggregate | null> {
+	return kv.get<RenderedAggregate>(
+		renderedAggregateKey(userId, folder, format),
+		"json",
+	);
+}
+
+export async function putRenderedAggregate(
+	kv: KVNamespace,
+	userId: string,
+	folder: string | undefined,
+	format: FeedFormat,
+	rendered: RenderedAggregate,
+): Promise<void> {
+	await kv.put(
+		renderedAggregateKey(userId, folder, format),
+		JSON.stringify(rendered),
+		{ expirationTtl: RENDERED_FEED_TTL },
+	);
+}
+
+// Strong validator from the rendered bytes
+export async function computeEtag(body: string): Promise<string> {
+	const digest = await crypto.subtle.digest(
+		"SHA-256",
+		new TextEncoder().encode(body),
+	);
+	const hash = [...new Uint8Array(digest).slice(0, 16)]
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join("");
+	return `"${hash}"`;
+}
+
+// RFC 9110 conditional GET: If-None-Match wins over If-Modified-Since when
+// both are sent
+export function isNotModified(
+	headers: Headers,
+	etag: string,
+	lastModified: string,
+): boolean {
+	const ifNoneMatch = headers.get("if-none-match");
+	if (ifNoneMatch) {
+		return ifNoneMatch
+			.split(",")
+			.map((tag) => tag.trim().replace(/^W\//, ""))
+			.some((tag) => tag === "*" || tag === etag);
+	}
+
+	const ifModifiedSince = Date.parse(headers.get("if-modified-since") ?? "");
+	return (
+		!Number.isNaN(ifModifiedSince) &&
+		Date.parse(lastModified) <= ifModifiedSince
+	);
+}
@@ -0,0 +1,122 @@
+// Output formats for public feeds. /feeds/{id} picks one from the Accept
+// header; /rss, /atom and /json always return that format.
+
+export type FeedFormat = "rss" | "atom" | "json";
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+	rss: "application/rss+xml; charset=utf-8",
+	atom: "application/atom+xml; charset=utf-8",
+	json: "application/feed+json; charset=utf-8",
+};
+
+// JSON Feed 1.1 (https://www.jsonfeed.org/version/1.1/)
+export const JSON_FEED_VERSION = "https://jsonfeed.org/version/1.1";
+
+export interface JsonFeedAuthor {
+	name?: string;
+	url?: string;
+	avatar?: string;
+}
+
+export interface JsonFeedAttachment {
+	url: string;
+	mime_type: string;
+	title?: string;
+	size_in_bytes?: number;
+}
+
+export interface JsonFeedItem {
+	id: string;
+	url?: string;
+	external_url?: string;
+	title?: string;
+	content_html?: string;
+	content_text?: string;
+	summary?: string;
+	image?: string;
+	date_published?: string;
+	authors?: JsonFeedAuthor[];
+	tags?: string[];
+	attachments?: JsonFeedAttachment[];
+}
+
+export interface JsonFeed {
+	version: typeof JSON_FEED_VERSION;
+	title: string;
+	home_page_url?: string;
+	feed_url?: string;
+	// Older items; set on paged feeds
+	next_url?: string;
+	description?: string;
+	icon?: string;
+	favicon?: string;
+	language?: string;
+	hubs?: { type: string; url: string }[];
+	items: JsonFeedItem[];
+}
+
+const MEDIA_TYPE_FORMATS: Record<string, FeedFormat> = {
+	"application/rss+xml": "rss",
+	"application/atom+xml": "atom",
+	"application/feed+json": "json",
+	"application/json": "json",
+};
+
+// Picks the format with the highest q-value in an Accept header. Ties go to
+// the first listed; anything unrecognized (including */*) falls back to RSS.
+export function negotiateFeedFormat(accept: string | null): FeedFormat {
+	let best: { format: FeedFormat; quality: number } | undefined;
+
+	for (const range of (accept ?? "").split(",")) {
+		const [mediaType, ...params] = range.split(";");
+		const format = MEDIA_TYPE_FORMATS[mediaType.trim().toLowerCase()];
+		if (!format) {
+			continue;
+		}
+
+		let quality = 1;
+		for (const param of params) {
+			const [name, value] = param.split("=");
+			if (name.trim().toLowerCase() === "q") {
+				quality = Number.parseFloat(value);
+			}
+		}
+
+		if (quality > 0 && (!best || quality > best.quality)) {
+			best = { format, quality };
+		}
+	}
+
+	return best?.format ?? "rss";
+}
+
+// Extra links for RSS (as atom:link) and Atom documents, keyed by rel
+export type FeedLinks = Record<string, string | undefined>;
+
+function escapeAttribute(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/"/g, "&quot;")
+		.replace(/</g, "&lt;");
+}
+
+// The feed library has no option for extra links (and its hub option replaces
+// the RSS self link), so they are added after the self link it writes,
+// followed by any extra elements
+export function addFeedLinks(
+	xml: string,
+	format: "rss" | "atom",
+	links: FeedLinks,
+	elements: string[] = [],
+): string {
+	const tag = format === "rss" ? "atom:link" : "link";
+	const added = Object.entries(links)
+		.filter((entry): entry is [string, string] => !!entry[1])
+		.map(
+			([rel, href]) => `<${tag} rel="${rel}" href="${escapeAttribute(href)}"/>`,
+		)
+		.concat(elements);
+
+	const selfLink = new RegExp(`<${tag} [^>]*rel="self"[^>]*/>`);
+	return xml.replace(selfLink, (match) => `${match}${added.join("")}`);
+}
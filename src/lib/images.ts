@@ -0,0 +1,162 @@
+import { arrayBufferToBase64, base64ToArrayBuffer } from "./auth.ts";
+
+const PROXY_ORIGIN = "https://unletter.app";
+const PROXY_PATH = "/img";
+
+// Largest upstream image the proxy will relay
+export const MAX_IMAGE_BYTES = 8 * 1024 * 1024;
+
+// SVG is deliberately excluded: served from our origin it could run scripts
+export const ALLOWED_IMAGE_TYPES = new Set([
+	"image/avif",
+	"image/bmp",
+	"image/gif",
+	"image/jpeg",
+	"image/png",
+	"image/webp",
+	"image/x-icon",
+	"image/vnd.microsoft.icon",
+]);
+
+const IMAGE_EXTENSION_TYPES: Record<string, string> = {
+	avif: "image/avif",
+	bmp: "image/bmp",
+	gif: "image/gif",
+	jpeg: "image/jpeg",
+	jpg: "image/jpeg",
+	png: "image/png",
+	webp: "image/webp",
+	ico: "image/x-icon",
+};
+
+// Guesses an image's type from the extension at the end of its URL, which
+// CDN URLs that wrap the original URL keep too
+export function imageTypeFromUrl(url: string): string | undefined {
+	const extension = url
+		.split(/[?#]/)[0]
+		.match(/\.(\w+)$/)?.[1]
+		.toLowerCase();
+	return extension ? IMAGE_EXTENSION_TYPES[extension] : undefined;
+}
+
+function toBase64Url(base64: string): string {
+	return base64.replace(/=/g, "").replace(/\+/g, "-").replace(/\//g, "_");
+}
+
+function fromBase64Url(base64Url: string): string {
+	const base64 = base64Url.replace(/-/g, "+").replace(/_/g, "/");
+	return base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+}
+
+function encodeImageUrl(url: string): string {
+	const bytes = new TextEncoder().encode(url);
+	return toBase64Url(arrayBufferToBase64(bytes.buffer as ArrayBuffer));
+}
+
+function decodeImageUrl(encoded: string): string | null {
+	try {
+		const bytes = base64ToArrayBuffer(fromBase64Url(encoded));
+		return new TextDecoder().decode(bytes);
+	} catch {
+		return null;
+	}
+}
+
+async function importSigningKey(
+	secret: string,
+	usage: "sign" | "verify",
+): Promise<CryptoKey> {
+	return crypto.subtle.importKey(
+		"raw",
+		new TextEncoder().encode(secret),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		[usage],
+	);
+}
+
+// Returns an absolute proxy URL of the form /img/{signature}/{encoded-url}
+export async function signImageUrl(
+	url: string,
+	secret: string,
+): Promise<string> {
+	const encoded = encodeImageUrl(url);
+	const key = await importSigningKey(secret, "sign");
+	const signature = await crypto.subtle.sign(
+		"HMAC",
+		key,
+		new TextEncoder().encode(encoded),
+	);
+
+	return `${PROXY_ORIGIN}${PROXY_PATH}/${toBase64Url(arrayBufferToBase64(signature))}/${encoded}`;
+}
+
+// Returns the original image URL if the signature is valid, otherwise null
+export async function verifyImageUrl(
+	signature: string,
+	encoded: string,
+	secret: string,
+): Promise<string | null> {
+	let signatureBuffer: ArrayBuffer;
+	try {
+		signatureBuffer = base64ToArrayBuffer(fromBase64Url(signature));
+	} catch {
+		return null;
+	}
+
+	const key = await importSigningKey(secret, "verify");
+	const isValid = await crypto.subtle.verify(
+		"HMAC",
+		key,
+		signatureBuffer,
+		new TextEncoder().encode(encoded),
+	);
+
+	if (!isValid) {
+		return null;
+	}
+
+	const url = decodeImageUrl(encoded);
+	if (!url || !/^https?:\/\//i.test(url)) {
+		return null;
+	}
+
+	return url;
+}
+
+// Reads a response body, giving up once it grows past maxBytes
+export async function readLimitedBody(
+	response: Response,
+	maxBytes: number,
+): Promise<ArrayBuffer | null> {
+	if (!response.body) {
+		return new ArrayBuffer(0);
+	}
+
+	const reader = response.body.getReader();
+	const chunks: Uint8Array[] = [];
+	let total = 0;
+
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+
+		total += value.byteLength;
+		if (total > maxBytes) {
+			await reader.cancel();
+			return null;
+		}
+		chunks.push(value);
+	}
+
+	const body = new Uint8Array(total);
+	let offset = 0;
+	for (const chunk of chunks) {
+		body.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+
+	return body.buffer;
+}
@@ -0,0 +1,195 @@
+import type { InboundMessage, InboxSplit } from "../types.ts";
+import { detectPlatform } from "./platforms.ts";
+
+// Inbox feeds take mail for many newsletters at one address and pass each
+// message on to a sub-feed, created on first sight of its route key:
+//   list      List-Id, falling back to the sender address
+//   sender    sender address
+//   platform  sending platform (Substack, Beehiiv, ...), falling back to the
+//             sender address
+// Routes live in D1 (inbox_routes) so sub-feeds can be merged and split later.
+
+export const MAX_SPLIT_ROUTES = 50;
+
+// Emails whose records are rewritten by one merge or split; each costs a KV
+// read and write
+export const MAX_MOVED_EMAILS = 400;
+
+const MAX_LABEL_LENGTH = 200;
+
+export interface InboxRouteTarget {
+	key: string;
+	// Name for a sub-feed created for this route
+	label: string;
+}
+
+export interface InboxRoute extends InboxRouteTarget {
+	feedId: string;
+	createdAt: string;
+}
+
+export function isInboxSplit(value: unknown): value is InboxSplit {
+	return value === "list" || value === "sender" || value === "platform";
+}
+
+// RFC 2919: List-Id: "Optional phrase" <list-label.example.com>
+function parseListId(
+	value: string | undefined,
+): { id: string; name?: string } | undefined {
+	const match = value?.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+	if (!match) {
+		const id = value?.trim();
+		return id ? { id: id.toLowerCase() } : undefined;
+	}
+	const name = match[1].replace(/^"|"$/g, "").trim();
+	return { id: match[2].trim().toLowerCase(), name: name || undefined };
+}
+
+function senderRoute(message: InboundMessage): InboxRouteTarget {
+	const address = message.from.email.toLowerCase();
+	return {
+		key: `sender:${address}`,
+		label: message.from.name || address,
+	};
+}
+
+export function inboxRoute(
+	message: InboundMessage,
+	split: InboxSplit,
+): InboxRouteTarget {
+	let route = senderRoute(message);
+
+	if (split === "list") {
+		const list = parseListId(message.headers["list-id"]);
+		if (list) {
+			route = { key: `list:${list.id}`, label: list.name ?? route.label };
+		}
+	} else if (split === "platform") {
+		const platform = detectPlatform(message);
+		if (platform) {
+			route = { key: `platform:${platform.name}`, label: platform.label };
+		}
+	}
+
+	return { ...route, label: route.label.slice(0, MAX_LABEL_LENGTH) };
+}
+
+// D1 routes
+
+function mapRoute(row: {
+	route_key: string;
+	label: string;
+	feed_id: string;
+	created_at: string;
+}): InboxRoute {
+	return {
+		key: row.route_key,
+		label: row.label,
+		feedId: row.feed_id,
+		createdAt: row.created_at,
+	};
+}
+
+export async function findInboxRoute(
+	db: D1Database,
+	inboxId: string,
+	key: string,
+): Promise<string | null> {
+	const row = await db
+		.prepare(
+			"SELECT feed_id FROM inbox_routes WHERE inbox_id = ? AND route_key = ?",
+		)
+		.bind(inboxId, key)
+		.first<{ feed_id: string }>();
+	return row?.feed_id ?? null;
+}
+
+// Claims a route for a new sub-feed. When another delivery claimed it first,
+// returns that feed instead.
+export async function claimInboxRoute(
+	db: D1Database,
+	inboxId: string,
+	route: InboxRouteTarget,
+	feedId: string,
+): Promise<string> {
+	const row = await db
+		.prepare(
+			`INSERT INTO inbox_routes (inbox_id, route_key, feed_id, label, created_at)
+			VALUES (?1, ?2, ?3, ?4, ?5)
+			ON CONFLICT (inbox_id, route_key) DO UPDATE SET feed_id = feed_id
+			RETURNING feed_id`,
+		)
+		.bind(inboxId, route.key, feedId, route.label, new Date().toISOString())
+		.first<{ feed_id: string }>();
+	return row?.feed_id ?? feedId;
+}
+
+export async function listInboxRoutes(
+	db: D1Database,
+	inboxId: string,
+): Promise<InboxRoute[]> {
+	const { results } = await db
+		.prepare(
+			`SELECT route_key, label, feed_id, created_at FROM inbox_routes
+			WHERE inbox_id = ? ORDER BY created_at, route_key`,
+		)
+		.bind(inboxId)
+		.all<{
+			route_key: string;
+			label: string;
+			feed_id: string;
+			created_at: string;
+		}>();
+	return results.map(mapRoute);
+}
+
+export async function listFeedRoutes(
+	db: D1Database,
+	feedId: string,
+): Promise<InboxRoute[]> {
+	const { results } = await db
+		.prepare(
+			`SELECT route_key, label, feed_id, created_at FROM inbox_routes
+			WHERE feed_id = ? ORDER BY created_at, route_key`,
+		)
+		.bind(feedId)
+		.all<{
+			route_key: string;
+			label: string;
+			feed_id: string;
+			created_at: string;
+		}>();
+	return results.map(mapRoute);
+}
+
+// Repoints a feed's routes at another feed, or only the given route keys
+export async function moveInboxRoutes(
+	db: D1Database,
+	fromFeedId: string,
+	toFeedId: string,
+	routeKeys?: string[],
+): Promise<void> {
+	const statement = routeKeys
+		? db
+				.prepare(
+					`UPDATE inbox_routes SET feed_id = ?
+					WHERE feed_id = ? AND route_key IN (SELECT value FROM json_each(?))`,
+				)
+				.bind(toFeedId, fromFeedId, JSON.stringify(routeKeys))
+		: db
+				.prepare("UPDATE inbox_routes SET feed_id = ? WHERE feed_id = ?")
+				.bind(toFeedId, fromFeedId);
+	await statement.run();
+}
+
+// Routes to a deleted sub-feed are dropped, so its next mail starts a new
+// one; an inbox's routes go with it
+export async function removeFeedInboxRoutes(
+	db: D1Database,
+	feedId: string,
+): Promise<void> {
+	await db
+		.prepare("DELETE FROM inbox_routes WHERE feed_id = ?1 OR inbox_id = ?1")
+		.bind(feedId)
+		.run();
+}
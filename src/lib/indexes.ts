@@ -0,0 +1,661 @@
+import type { StoredEmail } from "../types.ts";
+
+// D1-backed indexes of a user's feeds and a feed's emails. Entity records
+// (users, feeds, emails) stay in KV; only the lists that were previously
+// read-modify-written as JSON arrays live here.
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+// D1 caps bound parameters per statement, so bulk inserts are chunked
+const INSERT_BATCH_SIZE = 50;
+
+export interface Page<T> {
+	items: T[];
+	nextCursor?: string;
+}
+
+// Keyset cursors are opaque to clients: base64url of [sortKey, id]
+function encodeCursor(sortKey: string, id: string): string {
+	return btoa(JSON.stringify([sortKey, id]))
+		.replace(/=/g, "")
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_");
+}
+
+function decodeCursor(cursor: string | undefined): [string, string] | null {
+	if (!cursor) {
+		return null;
+	}
+
+	try {
+		const base64 = cursor.replace(/-/g, "+").replace(/_/g, "/");
+		const value = JSON.parse(
+			atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4)),
+		);
+		if (
+			Array.isArray(value) &&
+			typeof value[0] === "string" &&
+			typeof value[1] === "string"
+		) {
+			return [value[0], value[1]];
+		}
+	} catch {
+		// Fall through to treating the cursor as absent
+	}
+
+	return null;
+}
+
+export function clampPageSize(value: string | null | undefined): number {
+	const size = Number(value);
+	if (!Number.isInteger(size) || size < 1) {
+		return DEFAULT_PAGE_SIZE;
+	}
+	return Math.min(size, MAX_PAGE_SIZE);
+}
+
+// User -> feeds
+
+export async function addUserFeed(
+	db: D1Database,
+	userId: string,
+	feedId: string,
+	createdAt: string,
+): Promise<void> {
+	await db
+		.prepare(
+			"INSERT OR IGNORE INTO user_feeds (user_id, feed_id, created_at) VALUES (?, ?, ?)",
+		)
+		.bind(userId, feedId, createdAt)
+		.run();
+}
+
+export async function removeUserFeed(
+	db: D1Database,
+	userId: string,
+	feedId: string,
+): Promise<void> {
+	await db
+		.prepare("DELETE FROM user_feeds WHERE user_id = ? AND feed_id = ?")
+		.bind(userId, feedId)
+		.run();
+}
+
+// Oldest first, matching the order feeds were created in
+export async function listUserFeedIds(
+	db: D1Database,
+	userId: string,
+	options: { limit?: number; cursor?: string } = {},
+): Promise<Page<string>> {
+	const limit = options.limit ?? MAX_PAGE_SIZE;
+	const after = decodeCursor(options.cursor);
+
+	const statement = after
+		? db
+				.prepare(
+					`SELECT feed_id, created_at FROM user_feeds
+					WHERE user_id = ? AND (created_at, feed_id) > (?, ?)
+					ORDER BY created_at, feed_id LIMIT ?`,
+				)
+				.bind(userId, after[0], after[1], limit + 1)
+		: db
+				.prepare(
+					`SELECT feed_id, created_at FROM user_feeds
+					WHERE user_id = ?
+					ORDER BY created_at, feed_id LIMIT ?`,
+				)
+				.bind(userId, limit + 1);
+
+	const { results } = await statement.all<{
+		feed_id: string;
+		created_at: string;
+	}>();
+
+	const rows = results.slice(0, limit);
+	const last = rows[rows.length - 1];
+
+	return {
+		items: rows.map((row) => row.feed_id),
+		nextCursor:
+			results.length > limit && last
+				? encodeCursor(last.created_at, last.feed_id)
+				: undefined,
+	};
+}
+
+// Feed -> emails
+
+// Appends an email with the feed's next sequence number
+export async function addFeedEmail(
+	db: D1Database,
+	feedId: string,
+	emailId: string,
+	receivedAt: string,
+	routeKey?: string,
+): Promise<void> {
+	await db
+		.prepare(
+			`INSERT OR IGNORE INTO feed_emails (feed_id, email_id, received_at, seq, route_key)
+			SELECT ?1, ?2, ?3, COALESCE(MAX(seq), 0) + 1, ?4
+			FROM feed_emails WHERE feed_id = ?1`,
+		)
+		.bind(feedId, emailId, receivedAt, routeKey ?? null)
+		.run();
+}
+
+// Numbers rows inserted without a sequence (bulk migrations) after the
+// existing ones, oldest first
+async function assignFeedEmailSequence(
+	db: D1Database,
+	feedId: string,
+): Promise<void> {
+	await db
+		.prepare(
+			`UPDATE feed_emails SET seq = numbered.seq
+			FROM (
+				SELECT email_id,
+					(SELECT COALESCE(MAX(seq), 0) FROM feed_emails WHERE feed_id = ?1) +
+					ROW_NUMBER() OVER (ORDER BY received_at, email_id) AS seq
+				FROM feed_emails WHERE feed_id = ?1 AND seq IS NULL
+			) AS numbered
+			WHERE feed_emails.feed_id = ?1 AND feed_emails.email_id = numbered.email_id`,
+		)
+		.bind(feedId)
+		.run();
+}
+
+// Moves a feed's emails to another feed, or only those that arrived through
+// the given inbox routes, and returns their ids. Moved emails are numbered
+// after the target's newest, oldest first; no existing email is renumbered,
+// so published archive pages keep their URLs. The source is left with gaps.
+export async function moveFeedEmails(
+	db: D1Database,
+	fromFeedId: string,
+	toFeedId: string,
+	routeKeys?: string[],
+): Promise<string[]> {
+	const statement = routeKeys
+		? db
+				.prepare(
+					`UPDATE feed_emails SET feed_id = ?, seq = NULL
+					WHERE feed_id = ?
+						AND route_key IN (SELECT value FROM json_each(?))
+					RETURNING email_id`,
+				)
+				.bind(toFeedId, fromFeedId, JSON.stringify(routeKeys))
+		: db
+				.prepare(
+					`UPDATE feed_emails SET feed_id = ?, seq = NULL
+					WHERE feed_id = ? RETURNING email_id`,
+				)
+				.bind(toFeedId, fromFeedId);
+
+	const { results } = await statement.all<{ email_id: string }>();
+	await assignFeedEmailSequence(db, toFeedId);
+	return results.map((row) => row.email_id);
+}
+
+// Emails a move would touch, so callers can check the size first
+export async function countFeedEmails(
+	db: D1Database,
+	feedId: string,
+	routeKeys?: string[],
+): Promise<number> {
+	const statement = routeKeys
+		? db
+				.prepare(
+					`SELECT COUNT(*) AS count FROM feed_emails
+					WHERE feed_id = ? AND route_key IN (SELECT value FROM json_each(?))`,
+				)
+				.bind(feedId, JSON.stringify(routeKeys))
+		: db
+				.prepare("SELECT COUNT(*) AS count FROM feed_emails WHERE feed_id = ?")
+				.bind(feedId);
+
+	const row = await statement.first<{ count: number }>();
+	return row?.count ?? 0;
+}
+
+// Highest sequence number handed out, or 0 for a feed without emails
+export async function getFeedSequence(
+	db: D1Database,
+	feedId: string,
+): Promise<number> {
+	const row = await db
+		.prepare("SELECT MAX(seq) AS seq FROM feed_emails WHERE feed_id = ?")
+		.bind(feedId)
+		.first<{ seq: number | null }>();
+	return row?.seq ?? 0;
+}
+
+// Ids of the visible emails numbered from..to (inclusive), newest first
+export async function listFeedEmailRange(
+	db: D1Database,
+	feedId: string,
+	from: number,
+	to: number,
+): Promise<string[]> {
+	const { results } = await db
+		.prepare(
+			`SELECT email_id FROM feed_emails
+			WHERE feed_id = ? AND seq BETWEEN ? AND ? AND hidden = 0
+			ORDER BY seq DESC`,
+		)
+		.bind(feedId, from, to)
+		.all<{ email_id: string }>();
+	return results.map((row) => row.email_id);
+}
+
+export interface FeedEmailRef {
+	feedId: string;
+	emailId: string;
+	receivedAt: string;
+}
+
+// The newest visible emails across several feeds, newest first. Each feed
+// contributes at most `limit` rows from its date index, so the cost depends
+// on the number of feeds rather than on how much mail they hold.
+export async function listNewestFeedEmails(
+	db: D1Database,
+	feedIds: string[],
+	limit: number,
+): Promise<FeedEmailRef[]> {
+	if (feedIds.length === 0) {
+		return [];
+	}
+
+	const statement = db.prepare(
+		`SELECT feed_id, email_id, received_at FROM feed_emails
+		WHERE feed_id = ? AND hidden = 0
+		ORDER BY received_at DESC, email_id DESC LIMIT ?`,
+	);
+	const results = await db.batch<{
+		feed_id: string;
+		email_id: string;
+		received_at: string;
+	}>(feedIds.map((feedId) => statement.bind(feedId, limit)));
+
+	return results
+		.flatMap((result) => result.results)
+		.sort(
+			(a, b) =>
+				b.received_at.localeCompare(a.received_at) ||
+				b.email_id.localeCompare(a.email_id),
+		)
+		.slice(0, limit)
+		.map((row) => ({
+			feedId: row.feed_id,
+			emailId: row.email_id,
+			receivedAt: row.received_at,
+		}));
+}
+
+export async function removeFeedEmails(
+	db: D1Database,
+	feedId: string,
+): Promise<void> {
+	await db
+		.prepare("DELETE FROM feed_emails WHERE feed_id = ?")
+		.bind(feedId)
+		.run();
+}
+
+export interface FeedEmailEntry {
+	emailId: string;
+	receivedAt: string;
+	hidden: boolean;
+}
+
+// Newest first. Hidden emails are only included when asked for.
+export async function listFeedEmails(
+	db: D1Database,
+	feedId: string,
+	options: { limit?: number; cursor?: string; includeHidden?: boolean } = {},
+): Promise<Page<FeedEmailEntry>> {
+	const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+	const before = decodeCursor(options.cursor);
+	const hiddenFilter = options.includeHidden ? "" : "AND hidden = 0";
+
+	const statement = before
+		? db
+				.prepare(
+					`SELECT email_id, received_at, hidden FROM feed_emails
+					WHERE feed_id = ? AND (received_at, email_id) < (?, ?) ${hiddenFilter}
+					ORDER BY received_at DESC, email_id DESC LIMIT ?`,
+				)
+				.bind(feedId, before[0], before[1], limit + 1)
+		: db
+				.prepare(
+					`SELECT email_id, received_at, hidden FROM feed_emails
+					WHERE feed_id = ? ${hiddenFilter}
+					ORDER BY received_at DESC, email_id DESC LIMIT ?`,
+				)
+				.bind(feedId, limit + 1);
+
+	const { results } = await statement.all<{
+		email_id: string;
+		received_at: string;
+		hidden: number;
+	}>();
+
+	const rows = results.slice(0, limit);
+	const last = rows[rows.length - 1];
+
+	return {
+		items: rows.map((row) => ({
+			emailId: row.email_id,
+			receivedAt: row.received_at,
+			hidden: row.hidden === 1,
+		})),
+		nextCursor:
+			results.length > limit && last
+				? encodeCursor(last.received_at, last.email_id)
+				: undefined,
+	};
+}
+
+// Ids of the visible emails, newest first
+export async function listFeedEmailIds(
+	db: D1Database,
+	feedId: string,
+	options: { limit?: number; cursor?: string } = {},
+): Promise<Page<string>> {
+	const page = await listFeedEmails(db, feedId, options);
+	return {
+		items: page.items.map((entry) => entry.emailId),
+		nextCursor: page.nextCursor,
+	};
+}
+
+export async function getFeedEmail(
+	db: D1Database,
+	feedId: string,
+	emailId: string,
+): Promise<FeedEmailEntry | null> {
+	const row = await db
+		.prepare(
+			"SELECT received_at, hidden FROM feed_emails WHERE feed_id = ? AND email_id = ?",
+		)
+		.bind(feedId, emailId)
+		.first<{ received_at: string; hidden: number }>();
+	return row
+		? { emailId, receivedAt: row.received_at, hidden: row.hidden === 1 }
+		: null;
+}
+
+export async function setFeedEmailHidden(
+	db: D1Database,
+	feedId: string,
+	emailId: string,
+	hidden: boolean,
+): Promise<void> {
+	await db
+		.prepare(
+			"UPDATE feed_emails SET hidden = ? WHERE feed_id = ? AND email_id = ?",
+		)
+		.bind(hidden ? 1 : 0, feedId, emailId)
+		.run();
+}
+
+export async function removeFeedEmail(
+	db: D1Database,
+	feedId: string,
+	emailId: string,
+): Promise<void> {
+	await db
+		.prepare("DELETE FROM feed_emails WHERE feed_id = ? AND email_id = ?")
+		.bind(feedId, emailId)
+		.run();
+}
+
+export async function listAllFeedEmailIds(
+	db: D1Database,
+	feedId: string,
+): Promise<string[]> {
+	const { results } = await db
+		.prepare("SELECT email_id FROM feed_emails WHERE feed_id = ?")
+		.bind(feedId)
+		.all<{ email_id: string }>();
+	return results.map((row) => row.email_id);
+}
+
+// Email records are independent KV values, so fetch them concurrently
+export async function getEmails(
+	kv: KVNamespace,
+	emailIds: string[],
+): Promise<StoredEmail[]> {
+	const records = await Promise.all(
+		emailIds.map((emailId) => kv.get<StoredEmail>(`email:${emailId}`, "json")),
+	);
+	return records.filter((email): email is StoredEmail => email !== null);
+}
+
+// Migration from the legacy KV arrays
+
+async function insertRows(
+	db: D1Database,
+	sql: string,
+	rows: Array<[string, string, string]>,
+): Promise<void> {
+	for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+		const statement = db.prepare(sql);
+		await db.batch(
+			rows.slice(i, i + INSERT_BATCH_SIZE).map((row) => statement.bind(...row)),
+		);
+	}
+}
+
+// Copies feed:{feedId}:emails into D1 and removes the KV key. Safe to call
+// repeatedly; does nothing once a feed has been migrated.
+export async function migrateLegacyFeedIndex(
+	kv: KVNamespace,
+	db: D1Database,
+	feedId: string,
+): Promise<void> {
+	const key = `feed:${feedId}:emails`;
+	const emailIds = await kv.get<string[]>(key, "json");
+	if (!emailIds) {
+		return;
+	}
+
+	const emails = await getEmails(kv, emailIds);
+	const timestamps = new Map(
+		emails.map((email) => [email.id, email.timestamp]),
+	);
+
+	// Missing records keep their position using synthetic, older timestamps
+	const fallbackBase = Date.now();
+	const rows = emailIds.map((emailId, index): [string, string, string] => [
+		feedId,
+		emailId,
+		timestamps.get(emailId) ??
+			new Date(fallbackBase - index * 1000).toISOString(),
+	]);
+
+	await insertRows(
+		db,
+		"INSERT OR IGNORE INTO feed_emails (feed_id, email_id, received_at) VALUES (?, ?, ?)",
+		rows,
+	);
+	await assignFeedEmailSequence(db, feedId);
+	await kv.delete(key);
+}
+
+// Copies user:{userId}:feeds into D1 and removes the KV key
+export async function migrateLegacyUserIndex(
+	kv: KVNamespace,
+	db: D1Database,
+	userId: string,
+): Promise<void> {
+	const key = `user:${userId}:feeds`;
+	const feedIds = await kv.get<string[]>(key, "json");
+	if (!feedIds) {
+		return;
+	}
+
+	const feeds = await Promise.all(
+		feedIds.map((feedId) =>
+			kv.get<{ createdAt: string }>(`feed:${feedId}`, "json"),
+		),
+	);
+
+	const rows = feedIds.map((feedId, index): [string, string, string] => [
+		userId,
+		feedId,
+		feeds[index]?.createdAt ?? new Date(0).toISOString(),
+	]);
+
+	await insertRows(
+		db,
+		"INSERT OR IGNORE INTO user_feeds (user_id, feed_id, created_at) VALUES (?, ?, ?)",
+		rows,
+	);
+	await kv.delete(key);
+}
+
+// Migrates one page of legacy KV index keys. Call repeatedly with the
+// returned cursor until it comes back undefined.
+export async function migrateLegacyIndexes(
+	kv: KVNamespace,
+	db: D1Database,
+	cursor?: string,
+): Promise<{ migratedFeeds: number; migratedUsers: number; cursor?: string }> {
+	const list = await kv.list({ cursor });
+	let migratedFeeds = 0;
+	let migratedUsers = 0;
+
+	for (const { name } of list.keys) {
+		const feedMatch = name.match(/^feed:([^:]+):emails$/);
+		if (feedMatch) {
+			await migrateLegacyFeedIndex(kv, db, feedMatch[1]);
+			migratedFeeds++;
+			continue;
+		}
+
+		const userMatch = name.match(/^user:([^:]+):feeds$/);
+		if (userMatch) {
+			await migrateLegacyUserIndex(kv, db, userMatch[1]);
+			migratedUsers++;
+		}
+	}
+
+	return {
+		migratedFeeds,
+		migratedUsers,
+		cursor: list.list_complete ? undefined : list.cursor,
+	};
+}
+
+// Quarantine
+
+export interface QuarantineEntry {
+	emailId: string;
+	ruleId?: string;
+	quarantinedAt: string;
+}
+
+export async function addQuarantinedEmail(
+	db: D1Database,
+	feedId: string,
+	entry: QuarantineEntry,
+): Promise<void> {
+	await db
+		.prepare(
+			"INSERT OR IGNORE INTO quarantined_emails (feed_id, email_id, rule_id, quarantined_at) VALUES (?, ?, ?, ?)",
+		)
+		.bind(feedId, entry.emailId, entry.ruleId ?? null, entry.quarantinedAt)
+		.run();
+}
+
+// Returns false if the email wasn't quarantined in this feed
+export async function removeQuarantinedEmail(
+	db: D1Database,
+	feedId: string,
+	emailId: string,
+): Promise<boolean> {
+	const result = await db
+		.prepare(
+			"DELETE FROM quarantined_emails WHERE feed_id = ? AND email_id = ?",
+		)
+		.bind(feedId, emailId)
+		.run();
+	return result.meta.changes > 0;
+}
+
+// Newest first
+export async function listQuarantinedEmails(
+	db: D1Database,
+	feedId: string,
+	options: { limit?: number; cursor?: string } = {},
+): Promise<Page<QuarantineEntry>> {
+	const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+	const before = decodeCursor(options.cursor);
+
+	const statement = before
+		? db
+				.prepare(
+					`SELECT email_id, rule_id, quarantined_at FROM quarantined_emails
+					WHERE feed_id = ? AND (quarantined_at, email_id) < (?, ?)
+					ORDER BY quarantined_at DESC, email_id DESC LIMIT ?`,
+				)
+				.bind(feedId, before[0], before[1], limit + 1)
+		: db
+				.prepare(
+					`SELECT email_id, rule_id, quarantined_at FROM quarantined_emails
+					WHERE feed_id = ?
+					ORDER BY quarantined_at DESC, email_id DESC LIMIT ?`,
+				)
+				.bind(feedId, limit + 1);
+
+	const { results } = await statement.all<{
+		email_id: string;
+		rule_id: string | null;
+		quarantined_at: string;
+	}>();
+
+	const rows = results.slice(0, limit);
+	const last = rows[rows.length - 1];
+
+	return {
+		items: rows.map((row) => ({
+			emailId: row.email_id,
+			ruleId: row.rule_id ?? undefined,
+			quarantinedAt: row.quarantined_at,
+		})),
+		nextCursor:
+			results.length > limit && last
+				? encodeCursor(last.quarantined_at, last.email_id)
+				: undefined,
+	};
+}
+
+// Moves a feed's quarantined emails to another feed and returns their ids
+export async function moveQuarantinedEmails(
+	db: D1Database,
+	fromFeedId: string,
+	toFeedId: string,
+): Promise<string[]> {
+	const { results } = await db
+		.prepare(
+			`UPDATE quarantined_emails SET feed_id = ?
+			WHERE feed_id = ? RETURNING email_id`,
+		)
+		.bind(toFeedId, fromFeedId)
+		.all<{ email_id: string }>();
+	return results.map((row) => row.email_id);
+}
+
+// Removes and returns every quarantined email id, for feed deletion
+export async function clearQuarantinedEmails(
+	db: D1Database,
+	feedId: string,
+): Promise<string[]> {
+	const { results } = await db
+		.prepare(
+			"DELETE FROM quarantined_emails WHERE feed_id = ? RETURNING email_id",
+		)
+		.bind(feedId)
+		.all<{ email_id: string }>();
+	return results.map((row) => row.email_id);
+}
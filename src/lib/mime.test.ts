@@ -0,0 +1,175 @@
+import { describe, expect, test } from "bun:test";
+import { parseHeaderParams, parseMail } from "./mime.ts";
+
+function mail(lines: string[]): Uint8Array {
+	return new TextEncoder().encode(lines.join("\r\n"));
+}
+
+describe("parseMail", () => {
+	test("picks the html and text bodies of multipart/alternative", () => {
+		const parsed = parseMail(
+			mail([
+				"From: Jane Doe <Jane@Example.com>",
+				"Subject: Weekly",
+				"Message-ID: <abc@example.com>",
+				'Content-Type: multipart/alternative; boundary="alt"',
+				"",
+				"--alt",
+				"Content-Type: text/plain; charset=utf-8",
+				"",
+				"Plain body",
+				"--alt",
+				"Content-Type: text/html; charset=utf-8",
+				"",
+				"<p>HTML body</p>",
+				"--alt--",
+			]),
+		);
+
+		expect(parsed.from).toEqual({
+			name: "Jane Doe",
+			email: "jane@example.com",
+		});
+		expect(parsed.subject).toBe("Weekly");
+		expect(parsed.messageId).toBe("abc@example.com");
+		expect(parsed.text).toBe("Plain body");
+		expect(parsed.html).toBe("<p>HTML body</p>");
+		expect(parsed.attachments).toEqual([]);
+	});
+
+	test("walks nested multiparts and keeps attachments", () => {
+		const parsed = parseMail(
+			mail([
+				"Content-Type: multipart/mixed; boundary=outer",
+				"",
+				"--outer",
+				"Content-Type: multipart/related; boundary=outer-related",
+				"",
+				"--outer-related",
+				"Content-Type: text/html",
+				"",
+				'<img src="cid:logo">',
+				"--outer-related",
+				"Content-Type: image/png",
+				"Content-ID: <logo>",
+				"Content-Transfer-Encoding: base64",
+				"",
+				"iVBORw==",
+				"--outer-related--",
+				"--outer",
+				"Content-Type: application/pdf",
+				'Content-Disposition: attachment; filename="report.pdf"',
+				"",
+				"PDF",
+				"--outer--",
+			]),
+		);
+
+		expect(parsed.html).toBe('<img src="cid:logo">');
+		expect(parsed.attachments).toHaveLength(2);
+		expect(parsed.attachments[0]).toMatchObject({
+			contentType: "image/png",
+			contentId: "logo",
+			inline: true,
+		});
+		expect([...parsed.attachments[0].content]).toEqual([
+			0x89, 0x50, 0x4e, 0x47,
+		]);
+		expect(parsed.attachments[1]).toMatchObject({
+			filename: "report.pdf",
+			contentType: "application/pdf",
+			inline: false,
+		});
+	});
+
+	test("decodes quoted-printable and base64 bodies in their charset", () => {
+		const parsed = parseMail(
+			mail([
+				"Content-Type: multipart/alternative; boundary=b",
+				"",
+				"--b",
+				"Content-Type: text/plain; charset=iso-8859-1",
+				"Content-Transfer-Encoding: quoted-printable",
+				"",
+				"Caf=E9 au lait, a long line that is soft=",
+				" wrapped",
+				"--b",
+				"Content-Type: text/html; charset=utf-8",
+				"Content-Transfer-Encoding: base64",
+				"",
+				btoa("<p>Gr\xc3\xbc\xc3\x9fe</p>"),
+				"--b--",
+			]),
+		);
+
+		expect(parsed.text).toBe("Café au lait, a long line that is soft wrapped");
+		expect(parsed.html).toBe("<p>Grüße</p>");
+	});
+
+	test("decodes encoded-word headers", () => {
+		const parsed = parseMail(
+			mail([
+				"From: =?UTF-8?Q?Ren=C3=A9e?= <renee@example.com>",
+				"Subject: =?UTF-8?B?SGVsbG8s?=",
+				" =?UTF-8?B?IHfDtnJsZA==?=",
+				"",
+				"Body",
+			]),
+		);
+
+		expect(parsed.from?.name).toBe("Renée");
+		expect(parsed.subject).toBe("Hello, wörld");
+		expect(parsed.text).toBe("Body");
+	});
+
+	test("keeps a quoted boundary with a semicolon whole", () => {
+		const parsed = parseMail(
+			mail([
+				'Content-Type: multipart/alternative; boundary="a;b=c"; charset=utf-8',
+				"",
+				"--a;b=c",
+				"Content-Type: text/html",
+				"",
+				"<p>Split</p>",
+				"--a;b=c--",
+			]),
+		);
+
+		expect(parsed.html).toBe("<p>Split</p>");
+	});
+});
+
+describe("parseHeaderParams", () => {
+	test("splits only on semicolons outside quotes", () => {
+		expect(
+			parseHeaderParams('Attachment; filename="a;b \\"c\\".pdf"; size=10'),
+		).toEqual({
+			value: "attachment",
+			params: { filename: 'a;b "c".pdf', size: "10" },
+		});
+	});
+
+	test("decodes RFC 2231 values and joins their continuations", () => {
+		expect(
+			parseHeaderParams("attachment; filename*=utf-8''r%C3%A9sum%C3%A9.pdf")
+				.params.filename,
+		).toBe("résumé.pdf");
+
+		expect(
+			parseHeaderParams(
+				[
+					"attachment",
+					'filename="fallback.pdf"',
+					"filename*1=sum",
+					"filename*0*=iso-8859-1'fr'r%E9",
+					"filename*2*=%E9.pdf",
+				].join("; "),
+			).params.filename,
+		).toBe("résumé.pdf");
+
+		expect(
+			parseHeaderParams('text/plain; name*0="long "; name*1="name.txt"').params
+				.name,
+		).toBe("long name.txt");
+	});
+});
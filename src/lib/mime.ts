@@ -0,0 +1,392 @@
+import type { InboundAttachment } from "../types.ts";
+
+// Minimal RFC 5322 / MIME parser for raw messages delivered by Cloudflare
+// Email Routing. Messages are handled as "binary strings" (one char per byte)
+// until a part's charset is known, so 8-bit bodies decode correctly.
+
+export interface MimePart {
+	headers: Array<[string, string]>;
+	contentType: string;
+	params: Record<string, string>;
+	disposition?: string;
+	filename?: string;
+	contentId?: string;
+	body: Uint8Array;
+}
+
+export interface ParsedMail {
+	// Lowercased header name -> decoded value of its first occurrence
+	headers: Record<string, string>;
+	subject: string;
+	from?: { name: string; email: string };
+	messageId?: string;
+	html: string;
+	text: string;
+	// Every part other than the chosen html/text bodies that carries a
+	// filename or Content-ID, or is explicitly an attachment
+	attachments: InboundAttachment[];
+	parts: MimePart[];
+}
+
+const MAX_MULTIPART_DEPTH = 10;
+
+function bytesToBinary(bytes: Uint8Array): string {
+	let binary = "";
+	const chunkSize = 0x8000;
+	for (let i = 0; i < bytes.length; i += chunkSize) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+	}
+	return binary;
+}
+
+function binaryToBytes(binary: string): Uint8Array {
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i) & 0xff;
+	}
+	return bytes;
+}
+
+function decodeCharset(bytes: Uint8Array, charset = "utf-8"): string {
+	try {
+		return new TextDecoder(charset.trim().toLowerCase()).decode(bytes);
+	} catch {
+		// Unknown charset label, fall back to UTF-8
+		return new TextDecoder("utf-8").decode(bytes);
+	}
+}
+
+function decodeBase64(value: string): Uint8Array {
+	const clean = value.replace(/[^A-Za-z0-9+/]/g, "");
+	const padded = clean + "=".repeat((4 - (clean.length % 4)) % 4);
+	try {
+		return binaryToBytes(atob(padded));
+	} catch {
+		return new Uint8Array();
+	}
+}
+
+function decodeQuotedPrintable(value: string, isHeader = false): Uint8Array {
+	let source = value.replace(/=\r?\n/g, "");
+	if (isHeader) {
+		source = source.replace(/_/g, " ");
+	}
+
+	const binary = source.replace(/=([0-9A-Fa-f]{2})/g, (_, hex) =>
+		String.fromCharCode(Number.parseInt(hex, 16)),
+	);
+	return binaryToBytes(binary);
+}
+
+// RFC 2047 encoded words, e.g. =?UTF-8?B?SGVsbG8=?=
+export function decodeEncodedWords(value: string): string {
+	return value
+		.replace(/(=\?[^?]+\?[bBqQ]\?[^?]*\?=)\s+(?==\?)/g, "$1")
+		.replace(
+			/=\?([^?]+)\?([bBqQ])\?([^?]*)\?=/g,
+			(_, charset: string, encoding: string, text: string) => {
+				// Drop any RFC 2231 language suffix, e.g. utf-8*en
+				const label = charset.split("*")[0];
+				const bytes =
+					encoding.toUpperCase() === "B"
+						? decodeBase64(text)
+						: decodeQuotedPrintable(text, true);
+				return decodeCharset(bytes, label);
+			},
+		);
+}
+
+function decodeHeaderValue(binary: string): string {
+	// Raw UTF-8 is allowed in headers (RFC 6532), encoded words are ASCII
+	return decodeEncodedWords(decodeCharset(binaryToBytes(binary))).trim();
+}
+
+function splitHeadersAndBody(source: string): [string, string] {
+	// A part may have no headers at all and start with the blank line
+	const match = source.match(/^\r?\n|\r?\n\r?\n/);
+	if (!match || match.index === undefined) {
+		return [source, ""];
+	}
+	return [
+		source.slice(0, match.index),
+		source.slice(match.index + match[0].length),
+	];
+}
+
+function parseHeaderBlock(block: string): Array<[string, string]> {
+	const headers: Array<[string, string]> = [];
+	const unfolded = block.replace(/\r?\n[ \t]+/g, " ");
+
+	for (const line of unfolded.split(/\r?\n/)) {
+		const colon = line.indexOf(":");
+		if (colon <= 0) {
+			continue;
+		}
+		headers.push([
+			line.slice(0, colon).trim().toLowerCase(),
+			decodeHeaderValue(line.slice(colon + 1)),
+		]);
+	}
+
+	return headers;
+}
+
+function firstValues(
+	headerList: Array<[string, string]>,
+): Record<string, string> {
+	const headers: Record<string, string> = {};
+	for (const [name, value] of headerList) {
+		if (!(name in headers)) {
+			headers[name] = value;
+		}
+	}
+	return headers;
+}
+
+// Parses a raw header block into lowercased name -> first decoded value
+export function parseHeaders(block: string): Record<string, string> {
+	return firstValues(parseHeaderBlock(block));
+}
+
+function getHeader(
+	headers: Array<[string, string]>,
+	name: string,
+): string | undefined {
+	return headers.find(([key]) => key === name)?.[1];
+}
+
+// Splits a header value on the semicolons outside quoted strings
+function splitParams(value: string): string[] {
+	const parts: string[] = [];
+	let current = "";
+	let quoted = false;
+
+	for (let i = 0; i < value.length; i++) {
+		const char = value[i];
+		if (quoted && char === "\\") {
+			// Quoted pair; the escaped character can't end the string
+			current += char + (value[i + 1] ?? "");
+			i++;
+		} else if (char === ";" && !quoted) {
+			parts.push(current);
+			current = "";
+		} else {
+			if (char === '"') {
+				quoted = !quoted;
+			}
+			current += char;
+		}
+	}
+
+	parts.push(current);
+	return parts;
+}
+
+function unquote(value: string): string {
+	const match = value.match(/^"([\s\S]*)"$/);
+	return match ? match[1].replace(/\\([\s\S])/g, "$1") : value;
+}
+
+function percentDecode(value: string): string {
+	return value.replace(/%([0-9A-Fa-f]{2})/g, (_, hex) =>
+		String.fromCharCode(Number.parseInt(hex, 16)),
+	);
+}
+
+interface ParamSection {
+	index: number;
+	value: string;
+	encoded: boolean;
+}
+
+// Joins RFC 2231 sections (filename*0*=utf-8''r%C3%A9;filename*1=sum.pdf).
+// Only the first section names the charset, encoded ones are percent-encoded.
+function joinParamSections(sections: ParamSection[]): string {
+	let charset = "utf-8";
+	let binary = "";
+
+	for (const section of sections.sort((a, b) => a.index - b.index)) {
+		let value = section.value;
+		if (section.encoded && section.index === 0) {
+			const match = value.match(/^([^']*)'[^']*'([\s\S]*)$/);
+			if (match) {
+				charset = match[1] || charset;
+				value = match[2];
+			}
+		}
+		binary += section.encoded
+			? percentDecode(value)
+			: bytesToBinary(new TextEncoder().encode(value));
+	}
+
+	return decodeCharset(binaryToBytes(binary), charset);
+}
+
+// Splits "type/subtype; key=value; key2="quoted"" into its value and params.
+// RFC 2231 forms (key*=, key*0=, key*0*=) take precedence over a plain key.
+export function parseHeaderParams(value: string): {
+	value: string;
+	params: Record<string, string>;
+} {
+	const [first, ...rest] = splitParams(value);
+	const params: Record<string, string> = {};
+	const sections: Record<string, ParamSection[]> = {};
+
+	for (const raw of rest) {
+		const equals = raw.indexOf("=");
+		if (equals === -1) {
+			continue;
+		}
+
+		const key = raw.slice(0, equals).trim().toLowerCase();
+		const paramValue = unquote(raw.slice(equals + 1).trim());
+
+		const extended = key.match(/^([^*]+)\*(\d+)?(\*)?$/);
+		if (!extended) {
+			params[key] = paramValue;
+			continue;
+		}
+		const [, name, index, encoded] = extended;
+		sections[name] ??= [];
+		sections[name].push({
+			index: index === undefined ? 0 : Number(index),
+			value: paramValue,
+			encoded: index === undefined || encoded !== undefined,
+		});
+	}
+
+	for (const [name, parts] of Object.entries(sections)) {
+		params[name] = joinParamSections(parts);
+	}
+
+	return { value: first.trim().toLowerCase(), params };
+}
+
+// Parses a single address such as "Jane Doe <jane@example.com>"
+export function parseAddress(value: string): { name: string; email: string } {
+	const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>/);
+	if (match) {
+		return { name: match[1].trim(), email: match[2].trim().toLowerCase() };
+	}
+	return { name: "", email: value.trim().toLowerCase() };
+}
+
+function decodeTransferEncoding(body: string, encoding: string): Uint8Array {
+	switch (encoding.trim().toLowerCase()) {
+		case "base64":
+			return decodeBase64(body);
+		case "quoted-printable":
+			return decodeQuotedPrintable(body);
+		default:
+			return binaryToBytes(body);
+	}
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+	const delimiter = `--${boundary}`;
+	const parts: string[] = [];
+	const lines = body.split(/\r?\n/);
+	let current: string[] | null = null;
+
+	for (const line of lines) {
+		// The boundary has to end the line (bar the closing "--" and
+		// whitespace), so a nested boundary that extends it doesn't match
+		const rest = line.startsWith(delimiter)
+			? line.slice(delimiter.length)
+			: undefined;
+		if (rest !== undefined && /^(--)?[ \t]*$/.test(rest)) {
+			if (current) {
+				parts.push(current.join("\r\n"));
+			}
+			if (rest.startsWith("--")) {
+				return parts;
+			}
+			current = [];
+			continue;
+		}
+		current?.push(line);
+	}
+
+	// Tolerate a missing closing delimiter
+	if (current) {
+		parts.push(current.join("\r\n"));
+	}
+	return parts;
+}
+
+function collectParts(source: string, parts: MimePart[], depth: number): void {
+	const [headerBlock, body] = splitHeadersAndBody(source);
+	const headers = parseHeaderBlock(headerBlock);
+	const { value: contentType, params } = parseHeaderParams(
+		getHeader(headers, "content-type") ?? "text/plain",
+	);
+
+	if (contentType.startsWith("multipart/")) {
+		if (!params.boundary || depth >= MAX_MULTIPART_DEPTH) {
+			return;
+		}
+		for (const child of splitMultipart(body, params.boundary)) {
+			collectParts(child, parts, depth + 1);
+		}
+		return;
+	}
+
+	const disposition = parseHeaderParams(
+		getHeader(headers, "content-disposition") ?? "",
+	);
+	const contentId = getHeader(headers, "content-id")?.replace(/^<|>$/g, "");
+
+	parts.push({
+		headers,
+		contentType,
+		params,
+		disposition: disposition.value || undefined,
+		filename: disposition.params.filename ?? params.name,
+		contentId,
+		body: decodeTransferEncoding(
+			body,
+			getHeader(headers, "content-transfer-encoding") ?? "7bit",
+		),
+	});
+}
+
+export function parseMail(raw: Uint8Array): ParsedMail {
+	const source = bytesToBinary(raw);
+	const [headerBlock] = splitHeadersAndBody(source);
+	const headers = firstValues(parseHeaderBlock(headerBlock));
+
+	const parts: MimePart[] = [];
+	collectParts(source, parts, 0);
+
+	let html = "";
+	let text = "";
+	const attachments: InboundAttachment[] = [];
+	for (const part of parts) {
+		const isAttachment = part.disposition === "attachment";
+
+		if (!isAttachment && !html && part.contentType === "text/html") {
+			html = decodeCharset(part.body, part.params.charset);
+		} else if (!isAttachment && !text && part.contentType === "text/plain") {
+			text = decodeCharset(part.body, part.params.charset);
+		} else if (isAttachment || part.filename || part.contentId) {
+			attachments.push({
+				filename: part.filename || "attachment",
+				contentType: part.contentType,
+				contentId: part.contentId,
+				inline: !isAttachment && !!part.contentId,
+				content: part.body,
+			});
+		}
+	}
+
+	return {
+		headers,
+		subject: headers.subject ?? "",
+		from: headers.from ? parseAddress(headers.from) : undefined,
+		messageId: headers["message-id"]?.replace(/^<|>$/g, ""),
+		html,
+		text,
+		attachments,
+		parts,
+	};
+}
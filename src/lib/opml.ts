@@ -0,0 +1,107 @@
+// OPML 2.0 (http://opml.org/spec2.opml) export and import of feed lists.
+// Outlines are plain attribute maps; feed outlines are the ones with an
+// xmlUrl, and folder outlines around them are flattened on import.
+
+export const OPML_CONTENT_TYPE = "text/x-opml; charset=utf-8";
+
+// Namespace for the feed settings we round-trip (unletter:visibility, ...)
+export const OPML_NAMESPACE = "https://unletter.app/opml";
+
+export type OpmlOutline = Record<string, string | undefined>;
+
+export interface OpmlHead {
+	title: string;
+	dateCreated?: string;
+	ownerEmail?: string;
+}
+
+function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/\n/g, "&#10;");
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+	amp: "&",
+	lt: "<",
+	gt: ">",
+	quot: '"',
+	apos: "'",
+};
+
+function decodeXml(value: string): string {
+	return value.replace(
+		/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi,
+		(entity, name: string) => {
+			if (name[0] === "#") {
+				const code =
+					name[1] === "x" || name[1] === "X"
+						? Number.parseInt(name.slice(2), 16)
+						: Number.parseInt(name.slice(1), 10);
+				return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+			}
+			return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+		},
+	);
+}
+
+export function buildOpml(head: OpmlHead, outlines: OpmlOutline[]): string {
+	const headLines = [
+		`<title>${escapeXml(head.title)}</title>`,
+		head.dateCreated &&
+			`<dateCreated>${new Date(head.dateCreated).toUTCString()}</dateCreated>`,
+		head.ownerEmail && `<ownerEmail>${escapeXml(head.ownerEmail)}</ownerEmail>`,
+	].filter(Boolean);
+
+	const outlineLines = outlines.map((outline) => {
+		const attributes = Object.entries(outline)
+			.filter((entry): entry is [string, string] => entry[1] !== undefined)
+			.map(([name, value]) => `${name}="${escapeXml(value)}"`)
+			.join(" ");
+		return `<outline ${attributes}/>`;
+	});
+
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		`<opml version="2.0" xmlns:unletter="${OPML_NAMESPACE}">`,
+		"  <head>",
+		...headLines.map((line) => `    ${line}`),
+		"  </head>",
+		"  <body>",
+		...outlineLines.map((line) => `    ${line}`),
+		"  </body>",
+		"</opml>",
+	].join("\n");
+}
+
+// Opening and self-closing outline tags, with quoted > allowed in attributes
+const OUTLINE_TAG = /<outline\b((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+function parseAttributes(source: string): OpmlOutline {
+	const attributes: OpmlOutline = {};
+	for (const match of source.matchAll(ATTRIBUTE)) {
+		attributes[match[1]] = decodeXml(match[2] ?? match[3] ?? "");
+	}
+	return attributes;
+}
+
+// Returns the feed outlines in document order, or undefined if the document
+// isn't OPML
+export function parseOpmlOutlines(xml: string): OpmlOutline[] | undefined {
+	if (!/<opml\b/i.test(xml) || !/<body\b/i.test(xml)) {
+		return undefined;
+	}
+
+	const outlines: OpmlOutline[] = [];
+	for (const match of xml.matchAll(OUTLINE_TAG)) {
+		const outline = parseAttributes(match[1]);
+		if (outline.xmlUrl) {
+			outlines.push(outline);
+		}
+	}
+	return outlines;
+}
@@ -35,3 +35,294 @@ export function extractWebViewLink(html: string): string | undefined {
 
 	return undefined;
 }
+
+// Subject lines of double opt-in emails
+const CONFIRMATION_SUBJECT_PATTERNS = [
+	/confirm.{0,30}(subscription|e-?mail|sign.?up|address)/i,
+	/please.{0,10}confirm/i,
+	/verify.{0,20}(e-?mail|subscription|address)/i,
+	/(activate|complete|finish).{0,20}(subscription|sign.?up)/i,
+	/one (more|last) step/i,
+	/action required/i,
+];
+
+// Text of the link or button that confirms
+const CONFIRMATION_LINK_TEXT_PATTERNS = [
+	/confirm/i,
+	/verify/i,
+	/activate/i,
+	/yes,?.{0,5}(subscribe|sign me up|i want)/i,
+	/(complete|finish).{0,15}(subscription|sign.?up)/i,
+];
+
+// Confirmation URLs of common sending platforms. A GET on these confirms the
+// subscription, which is what makes auto-confirm safe for them. Paths are
+// anchored to the confirmation endpoints, so posts that merely mention
+// confirming (substack.com/p/senate-confirms-judge) don't match.
+const CONFIRMATION_URL_PATTERNS = [
+	{
+		platform: "substack",
+		pattern:
+			/^https:\/\/([\w-]+\.)*substack\.com\/(api\/v1\/)?(subscribe\/)?confirm(-subscription|-email)?\/?(\?|$)/i,
+	},
+	{
+		platform: "beehiiv",
+		pattern:
+			/^https:\/\/([\w-]+\.)*beehiiv\.com\/(subscribe\/|subscriptions\/)?confirm(ation)?\/?(\?|$)/i,
+	},
+	{
+		platform: "buttondown",
+		pattern:
+			/^https:\/\/(www\.)?buttondown\.(email|com)\/([\w-]+\/)?(api\/emails\/)?confirm(ation)?(\/[\w-]+)?\/?(\?|$)/i,
+	},
+	{
+		platform: "convertkit",
+		pattern:
+			/^https:\/\/app\.(convertkit|kit)\.com\/(forms\/\d+\/)?subscriptions?\/([\w-]+\/)?confirm\/?(\?|$)/i,
+	},
+	{
+		platform: "mailchimp",
+		pattern:
+			/^https:\/\/([\w-]+\.)*list-manage\.com\/subscribe\/confirm\/?(\?|$)/i,
+	},
+];
+
+// Anchors whose text may be wrapped in other markup (buttons usually are)
+const BUTTON_ANCHOR_REGEX =
+	/<a\s+[^>]*href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi;
+
+const TEXT_URL_REGEX = /https?:\/\/[^\s<>"')\]]+/g;
+
+export interface ConfirmationRequest {
+	url: string;
+	// Set when the URL matches a known platform's confirmation link
+	platform?: string;
+}
+
+// Links are compared after unwrapping click-tracking redirects, which
+// platforms like Substack put around every link
+function confirmationHref(href: string): string {
+	return cleanTrackingUrl(href.replace(/&amp;/g, "&"));
+}
+
+// Detects double opt-in emails and extracts the confirmation link. The subject
+// has to read like a confirmation request, and then either a link is a known
+// platform's confirmation URL or its text says it confirms.
+export function detectConfirmation(message: {
+	subject: string;
+	html: string;
+	text: string;
+}): ConfirmationRequest | undefined {
+	const links: { href: string; text: string }[] = [];
+	for (const match of message.html.matchAll(BUTTON_ANCHOR_REGEX)) {
+		links.push({
+			href: confirmationHref(match[1]),
+			text: match[2].replace(/<[^>]+>/g, " ").trim(),
+		});
+	}
+	for (const match of message.text.matchAll(TEXT_URL_REGEX)) {
+		links.push({ href: confirmationHref(match[0]), text: "" });
+	}
+
+	if (
+		!CONFIRMATION_SUBJECT_PATTERNS.some((pattern) =>
+			pattern.test(message.subject),
+		)
+	) {
+		return undefined;
+	}
+
+	for (const { href } of links) {
+		const known = CONFIRMATION_URL_PATTERNS.find(({ pattern }) =>
+			pattern.test(href),
+		);
+		if (known) {
+			return { url: href, platform: known.platform };
+		}
+	}
+
+	// Plain-text emails have no link text, so the URL itself has to say it
+	const link = links.find(
+		({ href, text }) =>
+			/^https?:\/\//i.test(href) &&
+			CONFIRMATION_LINK_TEXT_PATTERNS.some((pattern) =>
+				pattern.test(text || href),
+			),
+	);
+	return link && { url: link.href };
+}
+
+// Query parameters that exist only to track who clicked a link
+const TRACKING_PARAM_PATTERNS = [
+	/^utm_/i,
+	/^mc_(cid|eid)$/i,
+	/^_hs(enc|mi)$/i,
+	/^mkt_tok$/i,
+	/^(fb|g|msc|dc|yc)lid$/i,
+	/^ck_subscriber_id$/i,
+	/^_bhlid$/i,
+	/^vero_(id|conv)$/i,
+	/^oly_(enc|anon)_id$/i,
+	/^ml_subscriber(_hash)?$/i,
+	/^(__s|_kx|wickedid|rb_clickid)$/i,
+];
+
+// Click-tracking redirects that carry the destination in a query parameter
+const REDIRECT_QUERY_WRAPPERS = [
+	{ host: /(^|\.)google\.[a-z.]+$/i, path: /^\/url$/, param: "q" },
+	{
+		host: /\.safelinks\.protection\.outlook\.com$/i,
+		path: /^\/$/,
+		param: "url",
+	},
+	{ host: /^l\.facebook\.com$/i, path: /^\/l\.php$/, param: "u" },
+	{ host: /(^|\.)linkedin\.com$/i, path: /^\/redir\/redirect$/, param: "url" },
+	{ host: /^t\.co$/i, path: /^\/i\/redirect$/, param: "url" },
+	{ host: /(^|\.)mailchi\.mp$/i, path: /^\/redirect$/, param: "url" },
+];
+
+// Click-tracking redirects that carry the destination base64-encoded in the path
+const REDIRECT_PATH_WRAPPERS = [
+	{ host: /(^|\.)substack\.com$/i, path: /^\/redirect\/\d+\/([\w-]+)/ },
+	{ host: /(^|\.)convertkit-mail\d*\.com$/i, path: /\/([\w-]{16,}={0,2})$/ },
+	{ host: /(^|\.)kit-mail\d*\.com$/i, path: /\/([\w-]{16,}={0,2})$/ },
+];
+
+// Open-tracking image URLs used by common sending platforms
+const TRACKING_PIXEL_PATTERNS = [
+	/list-manage\.com\/track\/open/i,
+	/\/track\/open/i,
+	/\/wf\/open\?/i,
+	/\/open\.(gif|png|php)\b/i,
+	/substack\.com\/o\//i,
+	/\/ss\/o\//i,
+	/open\.convertkit-mail\d*\.com/i,
+	/\/e\/o\//i,
+	/\/email\/open/i,
+	/\/(beacon|pixel)\.(gif|png)\b/i,
+	/\/trk\/open/i,
+];
+
+const MAX_REDIRECT_DEPTH = 3;
+
+function decodeBase64Url(segment: string): string | undefined {
+	try {
+		const base64 = segment.replace(/-/g, "+").replace(/_/g, "/");
+		const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+		return atob(padded);
+	} catch {
+		return undefined;
+	}
+}
+
+function findEncodedUrl(segment: string): string | undefined {
+	const decoded = decodeBase64Url(segment);
+	if (!decoded) {
+		return undefined;
+	}
+
+	if (/^https?:\/\//i.test(decoded)) {
+		return decoded;
+	}
+
+	// Substack wraps the destination in a JSON object under "e"
+	try {
+		const data = JSON.parse(decoded) as Record<string, unknown>;
+		for (const key of ["e", "url", "u"]) {
+			const value = data[key];
+			if (typeof value === "string" && /^https?:\/\//i.test(value)) {
+				return value;
+			}
+		}
+	} catch {
+		// Not JSON, so nothing to unwrap
+	}
+
+	return undefined;
+}
+
+function unwrapRedirect(url: URL): URL | undefined {
+	for (const wrapper of REDIRECT_QUERY_WRAPPERS) {
+		if (!wrapper.host.test(url.hostname) || !wrapper.path.test(url.pathname)) {
+			continue;
+		}
+
+		const target = url.searchParams.get(wrapper.param);
+		if (target && /^https?:\/\//i.test(target)) {
+			return new URL(target);
+		}
+	}
+
+	for (const wrapper of REDIRECT_PATH_WRAPPERS) {
+		if (!wrapper.host.test(url.hostname)) {
+			continue;
+		}
+
+		const match = url.pathname.match(wrapper.path);
+		const target = match ? findEncodedUrl(match[1]) : undefined;
+		if (target) {
+			return new URL(target);
+		}
+	}
+
+	return undefined;
+}
+
+export function cleanTrackingUrl(href: string): string {
+	let url: URL;
+	try {
+		url = new URL(href);
+	} catch {
+		return href;
+	}
+
+	if (url.protocol !== "http:" && url.protocol !== "https:") {
+		return href;
+	}
+
+	try {
+		for (let depth = 0; depth < MAX_REDIRECT_DEPTH; depth++) {
+			const target = unwrapRedirect(url);
+			if (!target) {
+				break;
+			}
+			url = target;
+		}
+	} catch {
+		// A malformed destination leaves the link as it was
+		return href;
+	}
+
+	const params = [...url.searchParams.keys()];
+	for (const param of params) {
+		if (TRACKING_PARAM_PATTERNS.some((pattern) => pattern.test(param))) {
+			url.searchParams.delete(param);
+		}
+	}
+
+	return url.toString();
+}
+
+export function isTrackingPixel(image: {
+	src: string;
+	width?: string | null;
+	height?: string | null;
+	style?: string | null;
+}): boolean {
+	if (TRACKING_PIXEL_PATTERNS.some((pattern) => pattern.test(image.src))) {
+		return true;
+	}
+
+	const style = image.style?.toLowerCase().replace(/\s/g, "") ?? "";
+	if (/display:none|visibility:hidden/.test(style)) {
+		return true;
+	}
+
+	const tiny = (value: string | null | undefined, property: string) =>
+		(value !== null &&
+			value !== undefined &&
+			/^[01](px)?$/.test(value.trim())) ||
+		new RegExp(`(^|;)${property}:[01](px)?(;|$)`).test(style);
+
+	return tiny(image.width, "width") && tiny(image.height, "height");
+}
@@ -0,0 +1,340 @@
+import type { InboundMessage, NewsletterMetadata } from "../types.ts";
+import { cleanTrackingUrl, isTrackingPixel } from "./patterns.ts";
+
+// Sending platform detection and newsletter metadata. The platform comes from
+// the sender, Return-Path and List-Id domains or a platform header; for
+// metadata only, markers in the HTML are tried too. It decides how the
+// canonical post URL is found. The rest
+// (publication, author, logo, hero image, preheader) is read the same way for
+// every email, since the platforms lay out their templates alike.
+
+export interface SendingPlatform {
+	name: string;
+	label: string;
+	domains: string[];
+	// Header whose presence identifies the platform
+	header?: string;
+	// Asset and link hosts that only the platform's templates use
+	htmlMarker: RegExp;
+	// Returns the post's web URL when the link points at one
+	canonicalUrl: (url: URL) => string | undefined;
+}
+
+// Path-only match, so custom domains work; the query is tracking
+function postPath(pattern: RegExp): (url: URL) => string | undefined {
+	return (url) =>
+		pattern.test(url.pathname) ? `${url.origin}${url.pathname}` : undefined;
+}
+
+export const SENDING_PLATFORMS: SendingPlatform[] = [
+	{
+		name: "substack",
+		label: "Substack",
+		domains: ["substack.com"],
+		htmlMarker: /substackcdn\.com|substack-post-media/i,
+		canonicalUrl: (url) => {
+			// open.substack.com/pub/{publication}/p/{slug}
+			const open = url.pathname.match(/^\/pub\/([\w-]+)\/p\/([\w-]+)\/?$/);
+			if (url.hostname === "open.substack.com" && open) {
+				return `https://${open[1]}.substack.com/p/${open[2]}`;
+			}
+			return postPath(/^\/p\/[\w-]+\/?$/)(url);
+		},
+	},
+	{
+		name: "beehiiv",
+		label: "Beehiiv",
+		domains: ["beehiiv.com"],
+		htmlMarker: /beehiiv\.com|beehiivstatic\.com/i,
+		canonicalUrl: postPath(/^\/p\/[\w-]+\/?$/),
+	},
+	{
+		name: "buttondown",
+		label: "Buttondown",
+		domains: ["buttondown.email", "buttondown.com"],
+		htmlMarker: /buttondown\.(email|com)/i,
+		canonicalUrl: postPath(/^(\/[\w-]+)?\/archive\/[\w-]+\/?$/),
+	},
+	{
+		name: "convertkit",
+		label: "ConvertKit",
+		domains: ["convertkit.com", "ck.page", "kit.com"],
+		htmlMarker: /convertkit|ck\.page|kit-mail/i,
+		canonicalUrl: postPath(/^\/posts\/[\w-]+\/?$/),
+	},
+	{
+		name: "mailchimp",
+		label: "Mailchimp",
+		domains: ["mcsv.net", "mcdlv.net", "mailchimpapp.net"],
+		header: "x-mc-user",
+		htmlMarker: /list-manage\.com|mcusercontent\.com|campaign-archive\.com/i,
+		canonicalUrl: (url) => {
+			// mailchi.mp/{account}/{slug}, or the campaign archive by id
+			if (url.hostname === "mailchi.mp") {
+				return postPath(/^\/[\w-]+\/[\w-]+\/?$/)(url);
+			}
+			const id = url.searchParams.get("id");
+			const user = url.searchParams.get("u");
+			return /(^|\.)campaign-archive\.com$/.test(url.hostname) && id && user
+				? `${url.origin}/?u=${encodeURIComponent(user)}&id=${encodeURIComponent(id)}`
+				: undefined;
+		},
+	},
+];
+
+const MAX_PREHEADER_LENGTH = 300;
+
+// The logo is looked for among a template's first images, which keeps
+// "powered by" badges in the footer out
+const LOGO_CANDIDATES = 3;
+
+// Narrower images are icons, buttons and avatars rather than a hero image
+const MIN_HERO_WIDTH = 300;
+
+const IMAGE_TAG_REGEX = /<img\b[^>]*>/gi;
+const ANCHOR_HREF_REGEX = /<a\s+[^>]*href=["']([^"']+)["']/gi;
+const ATTRIBUTE_REGEX = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+// Hidden preview text placed before the body. Nested markup inside the
+// element isn't supported; templates keep it flat.
+const PREHEADER_REGEX =
+	/<(div|span|p)\b[^>]*style\s*=\s*["'][^"']*(?:display\s*:\s*none|max-height\s*:\s*0)[^"']*["'][^>]*>([\s\S]*?)<\/\1>/i;
+
+// Padding characters templates put after the preheader so the inbox preview
+// doesn't run into the body
+const PREHEADER_PADDING_REGEX = /\u00ad|\u034f|[\u200b-\u200d]|\u2060|\ufeff/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+	amp: "&",
+	lt: "<",
+	gt: ">",
+	quot: '"',
+	apos: "'",
+	nbsp: " ",
+	zwnj: "",
+	zwj: "",
+	shy: "",
+};
+
+function decodeEntities(value: string): string {
+	return value.replace(
+		/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi,
+		(entity, name: string) => {
+			if (name[0] === "#") {
+				const code =
+					name[1] === "x" || name[1] === "X"
+						? Number.parseInt(name.slice(2), 16)
+						: Number.parseInt(name.slice(1), 10);
+				return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+			}
+			return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+		},
+	);
+}
+
+function domainOf(address: string): string {
+	return address
+		.slice(address.lastIndexOf("@") + 1)
+		.replace(/>\s*$/, "")
+		.toLowerCase();
+}
+
+function matchesDomain(domain: string, candidate: string): boolean {
+	return domain === candidate || domain.endsWith(`.${candidate}`);
+}
+
+// The part of a List-Id that names the list, e.g. lenny.substack.com
+function listIdDomain(value: string | undefined): string {
+	return (value?.match(/<([^>]+)>/)?.[1] ?? value ?? "").trim().toLowerCase();
+}
+
+// Headers only, which is what inbox routing goes by: any sender can put a
+// platform's links in its HTML
+export function detectPlatform(
+	message: Pick<InboundMessage, "from" | "headers">,
+): SendingPlatform | undefined {
+	const domains = [
+		domainOf(message.from.email),
+		domainOf(message.headers["return-path"] ?? ""),
+		listIdDomain(message.headers["list-id"]),
+	].filter(Boolean);
+	return SENDING_PLATFORMS.find(
+		(platform) =>
+			(platform.header && message.headers[platform.header] !== undefined) ||
+			platform.domains.some((candidate) =>
+				domains.some((domain) => matchesDomain(domain, candidate)),
+			),
+	);
+}
+
+// Platforms sending from a custom domain are only recognizable by their HTML.
+// Headers are checked first, since the HTML can quote other platforms' links.
+function detectMetadataPlatform(
+	message: Pick<InboundMessage, "from" | "headers" | "html">,
+): SendingPlatform | undefined {
+	return (
+		detectPlatform(message) ??
+		SENDING_PLATFORMS.find((platform) => platform.htmlMarker.test(message.html))
+	);
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+	const attributes: Record<string, string> = {};
+	for (const match of tag.matchAll(ATTRIBUTE_REGEX)) {
+		attributes[match[1].toLowerCase()] = decodeEntities(
+			match[2] ?? match[3] ?? "",
+		);
+	}
+	return attributes;
+}
+
+function parseHttpUrl(value: string): URL | undefined {
+	if (!/^https?:\/\//i.test(value)) {
+		return undefined;
+	}
+	try {
+		return new URL(value);
+	} catch {
+		return undefined;
+	}
+}
+
+function findCanonicalUrl(
+	html: string,
+	platform: SendingPlatform,
+): string | undefined {
+	for (const match of html.matchAll(ANCHOR_HREF_REGEX)) {
+		const url = parseHttpUrl(cleanTrackingUrl(decodeEntities(match[1])));
+		const canonical = url && platform.canonicalUrl(url);
+		if (canonical) {
+			return canonical;
+		}
+	}
+	return undefined;
+}
+
+// "Jane Doe from The Weekly" is how Substack names posts by one of several
+// authors; otherwise the sender name is the publication
+function parseSenderName(
+	name: string,
+	listId: string | undefined,
+): { author?: string; publication?: string } {
+	const byline = name.match(/^(.+?)\s+from\s+(.+)$/);
+	if (byline) {
+		return { author: byline[1].trim(), publication: byline[2].trim() };
+	}
+
+	const listName = listId
+		?.match(/^\s*(.*?)\s*</)?.[1]
+		.replace(/^"|"$/g, "")
+		.trim();
+	return { publication: listName || name.trim() || undefined };
+}
+
+function findPreheader(html: string): string | undefined {
+	const match = html.match(PREHEADER_REGEX);
+	if (!match) {
+		return undefined;
+	}
+	const text = decodeEntities(match[2].replace(/<[^>]+>/g, " "))
+		.replace(PREHEADER_PADDING_REGEX, "")
+		.replace(/\s+/g, " ")
+		.trim();
+	return text ? text.slice(0, MAX_PREHEADER_LENGTH) : undefined;
+}
+
+interface EmailImage {
+	src: string;
+	alt: string;
+	className: string;
+	width?: number;
+}
+
+function declaredWidth(attributes: Record<string, string>): number | undefined {
+	const width =
+		attributes.width ??
+		attributes.style?.match(/(?:^|;)\s*width\s*:\s*([\d.]+)px/i)?.[1];
+	const value = width ? Number.parseFloat(width) : Number.NaN;
+	return Number.isNaN(value) ? undefined : value;
+}
+
+function listImages(html: string): EmailImage[] {
+	const images: EmailImage[] = [];
+	for (const match of html.matchAll(IMAGE_TAG_REGEX)) {
+		const attributes = parseAttributes(match[0]);
+		const src = attributes.src ?? "";
+		if (
+			!parseHttpUrl(src) ||
+			isTrackingPixel({
+				src,
+				width: attributes.width,
+				height: attributes.height,
+				style: attributes.style,
+			})
+		) {
+			continue;
+		}
+		images.push({
+			src,
+			alt: attributes.alt ?? "",
+			className: attributes.class ?? "",
+			width: declaredWidth(attributes),
+		});
+	}
+	return images;
+}
+
+function findLogo(
+	images: EmailImage[],
+	publication: string | undefined,
+): EmailImage | undefined {
+	return images
+		.slice(0, LOGO_CANDIDATES)
+		.find(
+			(image) =>
+				/logo|avatar|publication/i.test(
+					`${image.src} ${image.alt} ${image.className}`,
+				) ||
+				(!!publication &&
+					image.alt.trim().toLowerCase() === publication.toLowerCase()),
+		);
+}
+
+function findHeroImage(
+	images: EmailImage[],
+	logo: EmailImage | undefined,
+): EmailImage | undefined {
+	return images.find(
+		(image) =>
+			image !== logo &&
+			(image.width === undefined || image.width >= MIN_HERO_WIDTH) &&
+			!/icon|logo|avatar|badge|social|button|spacer|emoji/i.test(
+				`${image.src} ${image.alt} ${image.className}`,
+			),
+	);
+}
+
+export function extractNewsletterMetadata(
+	message: Pick<InboundMessage, "from" | "headers" | "html">,
+): NewsletterMetadata {
+	const platform = detectMetadataPlatform(message);
+	const { author, publication } = parseSenderName(
+		message.from.name,
+		message.headers["list-id"],
+	);
+	const images = message.html ? listImages(message.html) : [];
+	const logo = findLogo(images, publication);
+
+	return {
+		platform: platform?.name,
+		canonicalUrl:
+			platform && message.html
+				? findCanonicalUrl(message.html, platform)
+				: undefined,
+		author,
+		publication,
+		logoUrl: logo?.src,
+		heroImageUrl: findHeroImage(images, logo)?.src,
+		preheader: message.html ? findPreheader(message.html) : undefined,
+	};
+}
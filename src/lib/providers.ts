@@ -0,0 +1,599 @@
+import { nanoid } from "nanoid";
+import type {
+	InboundAttachment,
+	InboundMessage,
+	InboundWebhookPayload,
+} from "../types.ts";
+import { base64ToArrayBuffer } from "./auth.ts";
+import { parseAddress, parseHeaders, parseMail } from "./mime.ts";
+import {
+	activeSecrets,
+	claimNonce,
+	hmacHex,
+	isFreshTimestamp,
+	matchesSecret,
+	type VerificationFailureReason,
+	verifySignedBody,
+} from "./signatures.ts";
+
+// Adapters that turn each inbound email provider's webhook into an
+// InboundMessage. Every provider has its own route and its own way of proving
+// a request is authentic.
+
+export interface ProviderEnv {
+	DATA: KVNamespace;
+	WEBHOOK_SECRET: string;
+	// Still accepted while senders move over to a rotated WEBHOOK_SECRET
+	WEBHOOK_SECRET_PREVIOUS: string;
+	MAILGUN_SIGNING_KEY: string;
+	// "true" accepts inbound.new's static verification token on unsigned
+	// requests. The token is the same on every request, so they can be replayed.
+	ALLOW_LEGACY_WEBHOOK_TOKEN: string;
+}
+
+export type ProviderResult =
+	| { status: "ok"; message: InboundMessage }
+	| { status: "unauthorized"; reason: VerificationFailureReason }
+	| { status: "invalid"; error: string };
+
+export interface InboundProvider {
+	receive(request: Request, env: ProviderEnv): Promise<ProviderResult>;
+}
+
+function webhookSecrets(env: ProviderEnv): string[] {
+	return activeSecrets(env.WEBHOOK_SECRET, env.WEBHOOK_SECRET_PREVIOUS);
+}
+
+// Provider ids end up in URLs, so only URL-safe ones are kept
+function messageId(providerId: unknown): string {
+	return typeof providerId === "string" && /^[\w-]{1,64}$/.test(providerId)
+		? providerId
+		: nanoid();
+}
+
+// The id a provider's retries repeat. Mailgun and SendGrid don't send one of
+// their own, so the Message-ID header stands in.
+function providerId(value: unknown): string | undefined {
+	return typeof value === "string" ? value.trim() || undefined : undefined;
+}
+
+function formString(form: FormData, name: string): string {
+	const value = form.get(name);
+	return typeof value === "string" ? value : "";
+}
+
+function stripContentId(value: string | undefined): string | undefined {
+	return value?.trim().replace(/^cid:/i, "").replace(/^<|>$/g, "") || undefined;
+}
+
+function decodeBase64Content(content: string): Uint8Array {
+	try {
+		return new Uint8Array(base64ToArrayBuffer(content.replace(/\s/g, "")));
+	} catch {
+		return new Uint8Array();
+	}
+}
+
+// Multipart providers post attachments as files named attachment-1 (Mailgun)
+// or attachment1 (SendGrid). contentIds maps those field names to Content-IDs.
+async function formAttachments(
+	form: FormData,
+	contentIds: Record<string, string>,
+): Promise<InboundAttachment[]> {
+	const attachments: InboundAttachment[] = [];
+
+	// get() rather than entries(), which the test runner's types declare as
+	// string-only
+	for (const name of form.keys()) {
+		const value = form.get(name);
+		if (
+			!value ||
+			typeof value === "string" ||
+			!/^attachment-?\d+$/.test(name)
+		) {
+			continue;
+		}
+
+		const contentId = stripContentId(contentIds[name]);
+		attachments.push({
+			filename: value.name || "attachment",
+			contentType: value.type || "application/octet-stream",
+			contentId,
+			inline: !!contentId,
+			content: new Uint8Array(await value.arrayBuffer()),
+		});
+	}
+
+	return attachments;
+}
+
+function parseJsonField<T>(form: FormData, name: string): T | null {
+	try {
+		return JSON.parse(formString(form, name) || "null") as T;
+	} catch {
+		return null;
+	}
+}
+
+async function readForm(request: Request): Promise<FormData | null> {
+	try {
+		return await request.formData();
+	} catch {
+		return null;
+	}
+}
+
+async function readJson<T>(request: Request): Promise<T | null> {
+	try {
+		return (await request.json()) as T;
+	} catch {
+		return null;
+	}
+}
+
+// Accepts `Authorization: Basic <any-user>:<WEBHOOK_SECRET>`, which providers
+// without request signing send when credentials are embedded in the URL
+function hasBasicAuthSecret(request: Request, secrets: string[]): boolean {
+	const header = request.headers.get("authorization") ?? "";
+	if (!header.startsWith("Basic ")) {
+		return false;
+	}
+
+	let credentials: string;
+	try {
+		credentials = atob(header.slice(6).trim());
+	} catch {
+		return false;
+	}
+
+	const password = credentials.slice(credentials.indexOf(":") + 1);
+	return matchesSecret(password, secrets);
+}
+
+// Verifies an x-webhook-signature signed body and burns its signature as a
+// nonce so the same request can't be replayed
+async function verifySignedRequest(
+	request: Request,
+	env: ProviderEnv,
+	scope: string,
+): Promise<
+	| { valid: true; body: string }
+	| { valid: false; reason: VerificationFailureReason }
+> {
+	const body = await request.text();
+	const result = await verifySignedBody(
+		body,
+		request.headers,
+		webhookSecrets(env),
+	);
+	if (!result.valid) {
+		return result;
+	}
+
+	if (!(await claimNonce(env.DATA, scope, result.signature))) {
+		return { valid: false, reason: "replayed" };
+	}
+
+	return { valid: true, body };
+}
+
+function parseJson<T>(body: string): T | null {
+	try {
+		return JSON.parse(body) as T;
+	} catch {
+		return null;
+	}
+}
+
+function fromRaw(raw: string, recipient: string, id?: unknown): InboundMessage {
+	const parsed = parseMail(new TextEncoder().encode(raw));
+	return {
+		id: messageId(id),
+		providerId: providerId(id) ?? providerId(parsed.headers["message-id"]),
+		recipient,
+		from: parsed.from ?? { name: "", email: "" },
+		subject: parsed.subject,
+		receivedAt: new Date().toISOString(),
+		html: parsed.html,
+		text: parsed.text,
+		headers: parsed.headers,
+		attachments: parsed.attachments,
+	};
+}
+
+// Repeated headers keep their first value, as parseHeaders does; structured
+// ones keep their original text
+function inboundNewHeaderValue(value: unknown): string | undefined {
+	if (typeof value === "string") {
+		return value;
+	}
+	if (Array.isArray(value)) {
+		return inboundNewHeaderValue(value[0]);
+	}
+	if (value && typeof value === "object" && "text" in value) {
+		return typeof value.text === "string" ? value.text : undefined;
+	}
+	return undefined;
+}
+
+function inboundNewHeaders(
+	payload: Record<string, unknown> | undefined,
+): Record<string, string> {
+	const headers: Record<string, string> = {};
+	for (const [name, value] of Object.entries(payload ?? {})) {
+		const text = inboundNewHeaderValue(value);
+		if (text !== undefined) {
+			headers[name.toLowerCase()] ??= text;
+		}
+	}
+	return headers;
+}
+
+// inbound.new: JSON payload, signed like the generic webhook. Unsigned
+// requests with inbound.new's static verification token header are only
+// accepted when ALLOW_LEGACY_WEBHOOK_TOKEN opts in.
+const inboundNew: InboundProvider = {
+	async receive(request, env) {
+		let payload: InboundWebhookPayload | null;
+
+		if (request.headers.has("x-webhook-signature")) {
+			const verified = await verifySignedRequest(request, env, "inbound");
+			if (!verified.valid) {
+				return { status: "unauthorized", reason: verified.reason };
+			}
+			payload = parseJson<InboundWebhookPayload>(verified.body);
+		} else {
+			const token = request.headers.get("x-webhook-verification-token");
+			if (!token || env.ALLOW_LEGACY_WEBHOOK_TOKEN !== "true") {
+				return { status: "unauthorized", reason: "missing_signature" };
+			}
+			if (!matchesSecret(token, webhookSecrets(env))) {
+				return { status: "unauthorized", reason: "invalid_signature" };
+			}
+			payload = await readJson<InboundWebhookPayload>(request);
+		}
+
+		if (!payload?.email?.recipient || !payload.email.parsedData) {
+			return { status: "invalid", error: "Invalid payload" };
+		}
+
+		const fromAddress = payload.email.from?.addresses?.[0];
+		if (!fromAddress?.address) {
+			return { status: "invalid", error: "Invalid sender address" };
+		}
+
+		return {
+			status: "ok",
+			message: {
+				id: messageId(payload.email.id),
+				providerId: providerId(payload.email.id),
+				recipient: payload.email.recipient,
+				from: {
+					name: fromAddress.name || "",
+					email: fromAddress.address,
+				},
+				subject: payload.email.subject,
+				receivedAt: payload.email.receivedAt,
+				html: payload.email.parsedData.htmlBody || "",
+				text: payload.email.parsedData.textBody || "",
+				headers: inboundNewHeaders(payload.email.parsedData.headers),
+				// Attachments without inline content aren't fetched
+				attachments: (payload.email.parsedData.attachments ?? [])
+					.filter((attachment) => attachment.content)
+					.map((attachment) => {
+						const contentId = stripContentId(attachment.contentId);
+						return {
+							filename: attachment.filename || "attachment",
+							contentType: attachment.contentType,
+							contentId,
+							inline:
+								!!contentId && attachment.contentDisposition !== "attachment",
+							content: decodeBase64Content(attachment.content ?? ""),
+						};
+					}),
+			},
+		};
+	},
+};
+
+// Mailgun routes: multipart form signed with HMAC-SHA256(timestamp + token).
+// Tokens are single-use, so they double as replay nonces.
+const mailgun: InboundProvider = {
+	async receive(request, env) {
+		const form = await readForm(request);
+		if (!form) {
+			return { status: "invalid", error: "Invalid payload" };
+		}
+
+		const timestamp = formString(form, "timestamp");
+		const token = formString(form, "token");
+		const signature = formString(form, "signature");
+		if (!timestamp || !token || !signature) {
+			return { status: "unauthorized", reason: "missing_signature" };
+		}
+
+		const expected = await hmacHex(env.MAILGUN_SIGNING_KEY, timestamp + token);
+		if (!matchesSecret(signature, [expected])) {
+			return { status: "unauthorized", reason: "invalid_signature" };
+		}
+
+		if (!isFreshTimestamp(timestamp)) {
+			return { status: "unauthorized", reason: "stale_timestamp" };
+		}
+
+		if (!(await claimNonce(env.DATA, "mailgun", token))) {
+			return { status: "unauthorized", reason: "replayed" };
+		}
+
+		const recipient = formString(form, "recipient");
+		if (!recipient) {
+			return { status: "invalid", error: "Invalid recipient address" };
+		}
+
+		const headers: Record<string, string> = {};
+		try {
+			const list = JSON.parse(
+				formString(form, "message-headers") || "[]",
+			) as Array<[string, string]>;
+			for (const [name, value] of list) {
+				headers[name.toLowerCase()] ??= value;
+			}
+		} catch {
+			// Headers are optional
+		}
+
+		// content-id-map is { "<content-id>": "attachment-1" }
+		const contentIds: Record<string, string> = {};
+		for (const [contentId, field] of Object.entries(
+			parseJsonField<Record<string, string>>(form, "content-id-map") ?? {},
+		)) {
+			contentIds[field] = contentId;
+		}
+
+		return {
+			status: "ok",
+			message: {
+				id: nanoid(),
+				providerId: providerId(headers["message-id"]),
+				recipient,
+				from: parseAddress(
+					formString(form, "from") || formString(form, "sender"),
+				),
+				subject: formString(form, "subject"),
+				receivedAt: new Date().toISOString(),
+				html: formString(form, "body-html"),
+				text: formString(form, "body-plain"),
+				headers,
+				attachments: await formAttachments(form, contentIds),
+			},
+		};
+	},
+};
+
+interface PostmarkPayload {
+	MessageID?: string;
+	FromFull?: { Email: string; Name?: string };
+	From?: string;
+	OriginalRecipient?: string;
+	ToFull?: Array<{ Email: string }>;
+	Subject?: string;
+	Date?: string;
+	HtmlBody?: string;
+	TextBody?: string;
+	Headers?: Array<{ Name: string; Value: string }>;
+	Attachments?: Array<{
+		Name: string;
+		Content: string;
+		ContentType: string;
+		ContentID?: string;
+	}>;
+}
+
+// Postmark inbound: JSON payload, authenticated with basic auth in the URL
+const postmark: InboundProvider = {
+	async receive(request, env) {
+		if (!hasBasicAuthSecret(request, webhookSecrets(env))) {
+			return { status: "unauthorized", reason: "invalid_signature" };
+		}
+
+		const payload = await readJson<PostmarkPayload>(request);
+		const recipient =
+			payload?.OriginalRecipient || payload?.ToFull?.[0]?.Email || "";
+		if (!payload || !recipient) {
+			return { status: "invalid", error: "Invalid recipient address" };
+		}
+
+		const headers: Record<string, string> = {};
+		for (const { Name, Value } of payload.Headers ?? []) {
+			headers[Name.toLowerCase()] ??= Value;
+		}
+
+		const date = payload.Date ? new Date(payload.Date) : new Date();
+
+		return {
+			status: "ok",
+			message: {
+				id: messageId(payload.MessageID),
+				providerId: providerId(payload.MessageID),
+				recipient,
+				from: payload.FromFull
+					? { name: payload.FromFull.Name ?? "", email: payload.FromFull.Email }
+					: parseAddress(payload.From ?? ""),
+				subject: payload.Subject ?? "",
+				receivedAt: Number.isNaN(date.getTime())
+					? new Date().toISOString()
+					: date.toISOString(),
+				html: payload.HtmlBody ?? "",
+				text: payload.TextBody ?? "",
+				headers,
+				attachments: (payload.Attachments ?? []).map((attachment) => {
+					const contentId = stripContentId(attachment.ContentID);
+					return {
+						filename: attachment.Name || "attachment",
+						contentType: attachment.ContentType,
+						contentId,
+						inline: !!contentId,
+						content: decodeBase64Content(attachment.Content),
+					};
+				}),
+			},
+		};
+	},
+};
+
+// SendGrid Inbound Parse: multipart form (parsed or raw mode), authenticated
+// with basic auth in the URL since SendGrid doesn't sign these requests
+const sendgrid: InboundProvider = {
+	async receive(request, env) {
+		if (!hasBasicAuthSecret(request, webhookSecrets(env))) {
+			return { status: "unauthorized", reason: "invalid_signature" };
+		}
+
+		const form = await readForm(request);
+		if (!form) {
+			return { status: "invalid", error: "Invalid payload" };
+		}
+
+		let recipient = "";
+		try {
+			const envelope = JSON.parse(formString(form, "envelope") || "{}") as {
+				to?: string[];
+			};
+			recipient = envelope.to?.[0] ?? "";
+		} catch {
+			// Fall back to the To header below
+		}
+		recipient ||= parseAddress(formString(form, "to")).email;
+		if (!recipient) {
+			return { status: "invalid", error: "Invalid recipient address" };
+		}
+
+		// "Send raw" mode posts the full MIME message
+		const raw = formString(form, "email");
+		if (raw) {
+			return { status: "ok", message: fromRaw(raw, recipient) };
+		}
+
+		// attachment-info is { attachment1: { filename, type, "content-id" } }
+		const contentIds: Record<string, string> = {};
+		for (const [field, info] of Object.entries(
+			parseJsonField<Record<string, { "content-id"?: string }>>(
+				form,
+				"attachment-info",
+			) ?? {},
+		)) {
+			if (info["content-id"]) {
+				contentIds[field] = info["content-id"];
+			}
+		}
+
+		const headers = parseHeaders(formString(form, "headers"));
+
+		return {
+			status: "ok",
+			message: {
+				id: nanoid(),
+				providerId: providerId(headers["message-id"]),
+				recipient,
+				from: parseAddress(formString(form, "from")),
+				subject: formString(form, "subject"),
+				receivedAt: new Date().toISOString(),
+				html: formString(form, "html"),
+				text: formString(form, "text"),
+				headers,
+				attachments: await formAttachments(form, contentIds),
+			},
+		};
+	},
+};
+
+interface GenericPayload {
+	id?: string;
+	recipient?: string;
+	from?: string | { name?: string; email: string };
+	subject?: string;
+	receivedAt?: string;
+	html?: string;
+	text?: string;
+	headers?: Record<string, string>;
+	attachments?: Array<{
+		filename?: string;
+		contentType?: string;
+		contentId?: string;
+		inline?: boolean;
+		// Base64-encoded file contents
+		content: string;
+	}>;
+	raw?: string;
+}
+
+// Generic JSON webhook for self-built relays: either already-parsed fields or
+// a full RFC 5322 message in `raw`. Requests must be signed.
+const generic: InboundProvider = {
+	async receive(request, env) {
+		const verified = await verifySignedRequest(request, env, "generic");
+		if (!verified.valid) {
+			return { status: "unauthorized", reason: verified.reason };
+		}
+
+		const payload = parseJson<GenericPayload>(verified.body);
+		if (!payload?.recipient) {
+			return { status: "invalid", error: "Invalid recipient address" };
+		}
+
+		if (payload.raw) {
+			return {
+				status: "ok",
+				message: fromRaw(payload.raw, payload.recipient, payload.id),
+			};
+		}
+
+		const headers: Record<string, string> = {};
+		for (const [name, value] of Object.entries(payload.headers ?? {})) {
+			headers[name.toLowerCase()] = value;
+		}
+
+		const date = payload.receivedAt ? new Date(payload.receivedAt) : new Date();
+
+		return {
+			status: "ok",
+			message: {
+				id: messageId(payload.id),
+				providerId: providerId(payload.id),
+				recipient: payload.recipient,
+				from:
+					typeof payload.from === "string"
+						? parseAddress(payload.from)
+						: {
+								name: payload.from?.name ?? "",
+								email: payload.from?.email ?? "",
+							},
+				subject: payload.subject ?? "",
+				receivedAt: Number.isNaN(date.getTime())
+					? new Date().toISOString()
+					: date.toISOString(),
+				html: payload.html ?? "",
+				text: payload.text ?? "",
+				headers,
+				attachments: (payload.attachments ?? []).map((attachment) => {
+					const contentId = stripContentId(attachment.contentId);
+					return {
+						filename: attachment.filename || "attachment",
+						contentType: attachment.contentType || "application/octet-stream",
+						contentId,
+						inline: attachment.inline ?? !!contentId,
+						content: decodeBase64Content(attachment.content),
+					};
+				}),
+			},
+		};
+	},
+};
+
+export const INBOUND_PROVIDERS: Record<string, InboundProvider> = {
+	inbound: inboundNew,
+	mailgun,
+	postmark,
+	sendgrid,
+	generic,
+};
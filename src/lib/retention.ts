@@ -0,0 +1,227 @@
+import type { Feed, RetentionPolicy } from "../types.ts";
+import { deleteEmailBlobs } from "./blobs.ts";
+import { invalidateRenderedFeed } from "./feedcache.ts";
+
+// Per-feed retention, enforced by the scheduled cleanup. Policies live on the
+// Feed record and are mirrored into D1 (feed_retention) so the cron job can
+// find the feeds that need pruning without scanning KV.
+
+// Upper bounds so a typo can't turn into an effectively unlimited policy
+const MAX_RETAINED_ITEMS = 100_000;
+const MAX_RETENTION_DAYS = 3650;
+
+export interface PruneStores {
+	kv: KVNamespace;
+	db: D1Database;
+	bucket: R2Bucket;
+}
+
+function isPositiveInteger(value: unknown, max: number): value is number {
+	return (
+		typeof value === "number" &&
+		Number.isInteger(value) &&
+		value >= 1 &&
+		value <= max
+	);
+}
+
+// Parses a retention policy from a request body. null and {} both mean keep
+// forever; returns undefined if the value is malformed.
+export function parseRetentionPolicy(
+	value: unknown,
+): RetentionPolicy | undefined {
+	if (value === null) {
+		return {};
+	}
+	if (typeof value !== "object" || Array.isArray(value)) {
+		return undefined;
+	}
+
+	const { maxItems, maxAgeDays } = value as Record<string, unknown>;
+	const policy: RetentionPolicy = {};
+
+	if (maxItems !== undefined && maxItems !== null) {
+		if (!isPositiveInteger(maxItems, MAX_RETAINED_ITEMS)) {
+			return undefined;
+		}
+		policy.maxItems = maxItems;
+	}
+
+	if (maxAgeDays !== undefined && maxAgeDays !== null) {
+		if (!isPositiveInteger(maxAgeDays, MAX_RETENTION_DAYS)) {
+			return undefined;
+		}
+		policy.maxAgeDays = maxAgeDays;
+	}
+
+	return policy;
+}
+
+export function keepsForever(policy: RetentionPolicy | undefined): boolean {
+	return !policy?.maxItems && !policy?.maxAgeDays;
+}
+
+// Mirrors a feed's policy into D1. Keep-forever feeds have no row.
+export async function setFeedRetention(
+	db: D1Database,
+	feedId: string,
+	policy: RetentionPolicy | undefined,
+): Promise<void> {
+	if (keepsForever(policy)) {
+		await removeFeedRetention(db, feedId);
+		return;
+	}
+
+	await db
+		.prepare(
+			`INSERT INTO feed_retention (feed_id, max_items, max_age_days)
+			VALUES (?, ?, ?)
+			ON CONFLICT (feed_id) DO UPDATE SET
+				max_items = excluded.max_items,
+				max_age_days = excluded.max_age_days,
+				last_pruned_at = ''`,
+		)
+		.bind(feedId, policy?.maxItems ?? null, policy?.maxAgeDays ?? null)
+		.run();
+}
+
+export async function removeFeedRetention(
+	db: D1Database,
+	feedId: string,
+): Promise<void> {
+	await db
+		.prepare("DELETE FROM feed_retention WHERE feed_id = ?")
+		.bind(feedId)
+		.run();
+}
+
+// Emails past the policy, oldest first: anything older than maxAgeDays plus
+// anything beyond the newest maxItems
+async function listExpiredEmailIds(
+	db: D1Database,
+	feedId: string,
+	policy: RetentionPolicy,
+	limit: number,
+): Promise<string[]> {
+	const expired = new Set<string>();
+
+	if (policy.maxAgeDays) {
+		const cutoff = new Date(
+			Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000,
+		).toISOString();
+		const { results } = await db
+			.prepare(
+				`SELECT email_id FROM feed_emails
+				WHERE feed_id = ? AND received_at < ?
+				ORDER BY received_at, email_id LIMIT ?`,
+			)
+			.bind(feedId, cutoff, limit)
+			.all<{ email_id: string }>();
+		for (const row of results) {
+			expired.add(row.email_id);
+		}
+	}
+
+	if (policy.maxItems && expired.size < limit) {
+		const { results } = await db
+			.prepare(
+				`SELECT email_id FROM feed_emails
+				WHERE feed_id = ?
+				ORDER BY received_at DESC, email_id DESC LIMIT ? OFFSET ?`,
+			)
+			.bind(feedId, limit, policy.maxItems)
+			.all<{ email_id: string }>();
+		for (const row of results) {
+			expired.add(row.email_id);
+		}
+	}
+
+	return [...expired].slice(0, limit);
+}
+
+async function deleteEmails(
+	stores: PruneStores,
+	feedId: string,
+	emailIds: string[],
+): Promise<void> {
+	await Promise.all(
+		emailIds.map((emailId) =>
+			Promise.all([
+				stores.kv.delete(`email:${emailId}`),
+				deleteEmailBlobs(stores.bucket, emailId),
+			]),
+		),
+	);
+
+	// Index rows go last so a failed run leaves them to be retried
+	const statement = stores.db.prepare(
+		"DELETE FROM feed_emails WHERE feed_id = ? AND email_id = ?",
+	);
+	await stores.db.batch(
+		emailIds.map((emailId) => statement.bind(feedId, emailId)),
+	);
+
+	// A deleted feed's caches went with it
+	const feed = await stores.kv.get<Feed>(`feed:${feedId}`, "json");
+	if (feed) {
+		await invalidateRenderedFeed(stores.kv, feed);
+	}
+}
+
+// Deletes up to `budget` expired emails, visiting the least recently pruned
+// feeds first. Feeds with more than their share left over are picked up again
+// by the next run.
+export async function pruneExpiredEmails(
+	stores: PruneStores,
+	options: { budget: number; maxFeeds: number },
+): Promise<{ feeds: number; deleted: number }> {
+	const { results } = await stores.db
+		.prepare(
+			`SELECT feed_id, max_items, max_age_days FROM feed_retention
+			ORDER BY last_pruned_at LIMIT ?`,
+		)
+		.bind(options.maxFeeds)
+		.all<{
+			feed_id: string;
+			max_items: number | null;
+			max_age_days: number | null;
+		}>();
+
+	let deleted = 0;
+	let feeds = 0;
+
+	for (const row of results) {
+		const remaining = options.budget - deleted;
+		if (remaining <= 0) {
+			break;
+		}
+
+		const emailIds = await listExpiredEmailIds(
+			stores.db,
+			row.feed_id,
+			{
+				maxItems: row.max_items ?? undefined,
+				maxAgeDays: row.max_age_days ?? undefined,
+			},
+			remaining,
+		);
+
+		if (emailIds.length > 0) {
+			await deleteEmails(stores, row.feed_id, emailIds);
+			deleted += emailIds.length;
+		}
+
+		// Only mark the feed done once nothing was left over
+		if (emailIds.length < remaining) {
+			await stores.db
+				.prepare(
+					"UPDATE feed_retention SET last_pruned_at = ? WHERE feed_id = ?",
+				)
+				.bind(new Date().toISOString(), row.feed_id)
+				.run();
+		}
+		feeds++;
+	}
+
+	return { feeds, deleted };
+}
@@ -0,0 +1,178 @@
+import { nanoid } from "nanoid";
+import type {
+	DefaultRuleAction,
+	Feed,
+	FeedRule,
+	InboundMessage,
+	RuleAction,
+} from "../types.ts";
+
+// Per-feed sender/subject rules, evaluated before a message is stored.
+// A rule matches when every matcher it sets matches; the first matching rule
+// decides what happens, and the feed's default action covers the rest.
+
+export const MAX_RULES_PER_FEED = 50;
+
+const MAX_SENDERS_PER_RULE = 100;
+// Subject patterns run on every delivery, so keep them short
+const MAX_PATTERN_LENGTH = 200;
+
+const RULE_ACTIONS = new Set<RuleAction>([
+	"allow",
+	"drop",
+	"quarantine",
+	"route",
+]);
+
+export type RuleDecision =
+	| { action: DefaultRuleAction; ruleId?: string }
+	| { action: "route"; ruleId: string; targetFeedId: string };
+
+export type RuleParseResult =
+	| { status: "ok"; rule: FeedRule }
+	| { status: "invalid"; error: string };
+
+function normalizeSender(value: string): string {
+	return value.trim().toLowerCase().replace(/^@/, "");
+}
+
+function matchesSender(address: string, sender: string): boolean {
+	const email = address.toLowerCase();
+	if (sender.includes("@")) {
+		return email === sender;
+	}
+
+	const domain = email.slice(email.lastIndexOf("@") + 1);
+	return domain === sender || domain.endsWith(`.${sender}`);
+}
+
+function compilePattern(pattern: string): RegExp | null {
+	try {
+		return new RegExp(pattern, "i");
+	} catch {
+		return null;
+	}
+}
+
+function matchesRule(rule: FeedRule, message: InboundMessage): boolean {
+	if (rule.senders?.length) {
+		const matched = rule.senders.some((sender) =>
+			matchesSender(message.from.email, sender),
+		);
+		if (!matched) {
+			return false;
+		}
+	}
+
+	if (rule.subjectPattern) {
+		const pattern = compilePattern(rule.subjectPattern);
+		if (!pattern?.test(message.subject)) {
+			return false;
+		}
+	}
+
+	return true;
+}
+
+export function evaluateRules(
+	feed: Feed,
+	message: InboundMessage,
+): RuleDecision {
+	for (const rule of feed.rules ?? []) {
+		if (!matchesRule(rule, message)) {
+			continue;
+		}
+
+		if (rule.action === "route" && rule.targetFeedId) {
+			return {
+				action: "route",
+				ruleId: rule.id,
+				targetFeedId: rule.targetFeedId,
+			};
+		}
+
+		if (rule.action !== "route") {
+			return { action: rule.action, ruleId: rule.id };
+		}
+	}
+
+	return { action: feed.defaultRuleAction ?? "allow" };
+}
+
+export function isDefaultRuleAction(
+	value: unknown,
+): value is DefaultRuleAction {
+	return value === "allow" || value === "drop" || value === "quarantine";
+}
+
+// Validates a rule from a request body. The route target's ownership is
+// checked by the caller.
+export function parseFeedRule(value: unknown, id?: string): RuleParseResult {
+	if (!value || typeof value !== "object" || Array.isArray(value)) {
+		return { status: "invalid", error: "Rule must be an object" };
+	}
+
+	const input = value as Record<string, unknown>;
+	const rule: FeedRule = {
+		id: id ?? nanoid(10),
+		action: input.action as RuleAction,
+	};
+
+	if (!RULE_ACTIONS.has(rule.action)) {
+		return {
+			status: "invalid",
+			error: "action must be one of allow, drop, quarantine, route",
+		};
+	}
+
+	if (input.senders !== undefined) {
+		if (
+			!Array.isArray(input.senders) ||
+			input.senders.length > MAX_SENDERS_PER_RULE ||
+			!input.senders.every((sender) => typeof sender === "string")
+		) {
+			return {
+				status: "invalid",
+				error: `senders must be a list of up to ${MAX_SENDERS_PER_RULE} addresses or domains`,
+			};
+		}
+
+		const senders = input.senders.map(normalizeSender).filter(Boolean);
+		if (senders.length > 0) {
+			rule.senders = senders;
+		}
+	}
+
+	if (input.subjectPattern !== undefined && input.subjectPattern !== "") {
+		if (
+			typeof input.subjectPattern !== "string" ||
+			input.subjectPattern.length > MAX_PATTERN_LENGTH ||
+			!compilePattern(input.subjectPattern)
+		) {
+			return {
+				status: "invalid",
+				error: `subjectPattern must be a valid regular expression of at most ${MAX_PATTERN_LENGTH} characters`,
+			};
+		}
+		rule.subjectPattern = input.subjectPattern;
+	}
+
+	if (!rule.senders && !rule.subjectPattern) {
+		return {
+			status: "invalid",
+			error: "Rule needs senders or a subjectPattern",
+		};
+	}
+
+	if (rule.action === "route") {
+		if (typeof input.targetFeedId !== "string" || !input.targetFeedId) {
+			return {
+				status: "invalid",
+				error: "targetFeedId is required for route rules",
+			};
+		}
+		rule.targetFeedId = input.targetFeedId;
+	}
+
+	return { status: "ok", rule };
+}
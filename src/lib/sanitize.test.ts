@@ -0,0 +1,48 @@
+import { describe, expect, test } from "bun:test";
+import { sanitizeHtml } from "./sanitize.ts";
+
+// Markup that runs script when it reaches a reader unescaped
+function expectInert(html: string) {
+	expect(html).not.toMatch(/<script/i);
+	expect(html).not.toMatch(/<[^>]+\son\w+\s*=/i);
+}
+
+describe("sanitizeHtml", () => {
+	test("removes scripts and event handlers", async () => {
+		const html = await sanitizeHtml(
+			'<p onclick="alert(1)">Hi<script>alert(1)</script></p><img src="https://example.com/a.png" onerror="alert(1)">',
+		);
+
+		expectInert(html);
+		expect(html).toContain("<p>Hi</p>");
+		expect(html).toContain('src="https://example.com/a.png"');
+	});
+
+	// The parser reads these elements' contents as text, so unwrapping them
+	// would turn that text into markup
+	test.each([
+		"<xmp><script>alert(1)</script></xmp>",
+		"<noembed><img src=x onerror=alert(1)></noembed>",
+		"<noframes><script>alert(1)</script></noframes>",
+		"<plaintext><img src=x onerror=alert(1)>",
+		"<noscript><img src=x onerror=alert(1)></noscript>",
+		"<textarea><script>alert(1)</script></textarea>",
+		"<title><img src=x onerror=alert(1)></title>",
+		"<iframe><script>alert(1)</script></iframe>",
+	])("drops raw text element %s with its contents", async (payload) => {
+		const html = await sanitizeHtml(`<p>Before</p>${payload}`);
+
+		expectInert(html);
+		expect(html).not.toContain("alert");
+		expect(html).toContain("<p>Before</p>");
+	});
+
+	test("keeps a style element's contents as CSS", async () => {
+		const html = await sanitizeHtml(
+			"<style>p { color: red }</style><p>Text</p>",
+		);
+
+		expectInert(html);
+		expect(html).toContain("color: red");
+	});
+});
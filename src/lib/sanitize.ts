@@ -0,0 +1,611 @@
+import { cleanTrackingUrl, isTrackingPixel } from "./patterns.ts";
+
+// Allowlist-based sanitizer for untrusted newsletter HTML. Anything not
+// explicitly listed here is dropped: unknown tags are unwrapped (their text is
+// kept), dangerous tags are removed together with their content.
+
+const ALLOWED_TAGS = new Set([
+	"a",
+	"abbr",
+	"address",
+	"article",
+	"aside",
+	"b",
+	"bdi",
+	"bdo",
+	"big",
+	"blockquote",
+	"br",
+	"caption",
+	"center",
+	"cite",
+	"code",
+	"col",
+	"colgroup",
+	"dd",
+	"del",
+	"details",
+	"dfn",
+	"div",
+	"dl",
+	"dt",
+	"em",
+	"figcaption",
+	"figure",
+	"font",
+	"footer",
+	"h1",
+	"h2",
+	"h3",
+	"h4",
+	"h5",
+	"h6",
+	"header",
+	"hr",
+	"i",
+	"img",
+	"ins",
+	"kbd",
+	"li",
+	"main",
+	"mark",
+	"ol",
+	"p",
+	"pre",
+	"q",
+	"rp",
+	"rt",
+	"ruby",
+	"s",
+	"samp",
+	"section",
+	"small",
+	"span",
+	"strike",
+	"strong",
+	"style",
+	"sub",
+	"summary",
+	"sup",
+	"table",
+	"tbody",
+	"td",
+	"tfoot",
+	"th",
+	"thead",
+	"time",
+	"tr",
+	"tt",
+	"u",
+	"ul",
+	"var",
+	"wbr",
+]);
+
+// Tags removed along with everything inside them. Every raw text and RCDATA
+// element but style (whose CSS is sanitized) belongs here: their contents
+// reach the rewriter as text, so unwrapping them would emit it as markup.
+const DROPPED_TAGS = new Set([
+	"applet",
+	"audio",
+	"base",
+	"canvas",
+	"embed",
+	"frame",
+	"frameset",
+	"iframe",
+	"input",
+	"link",
+	"math",
+	"meta",
+	"noembed",
+	"noframes",
+	"noscript",
+	"object",
+	"option",
+	"param",
+	"plaintext",
+	"script",
+	"select",
+	"svg",
+	"template",
+	"textarea",
+	"title",
+	"video",
+	"xmp",
+]);
+
+const GLOBAL_ATTRIBUTES = new Set([
+	"align",
+	"bgcolor",
+	"border",
+	"class",
+	"color",
+	"dir",
+	"height",
+	"id",
+	"lang",
+	"role",
+	"style",
+	"title",
+	"valign",
+	"width",
+]);
+
+const TAG_ATTRIBUTES: Record<string, Set<string>> = {
+	a: new Set(["href", "name"]),
+	blockquote: new Set(["cite"]),
+	col: new Set(["span"]),
+	colgroup: new Set(["span"]),
+	del: new Set(["cite", "datetime"]),
+	font: new Set(["face", "size"]),
+	img: new Set(["src", "alt"]),
+	ins: new Set(["cite", "datetime"]),
+	li: new Set(["value"]),
+	ol: new Set(["start", "type", "reversed"]),
+	q: new Set(["cite"]),
+	table: new Set(["background", "cellpadding", "cellspacing", "summary"]),
+	td: new Set([
+		"background",
+		"colspan",
+		"rowspan",
+		"headers",
+		"nowrap",
+		"scope",
+	]),
+	th: new Set([
+		"background",
+		"colspan",
+		"rowspan",
+		"headers",
+		"nowrap",
+		"scope",
+	]),
+	time: new Set(["datetime"]),
+	tr: new Set(["background"]),
+};
+
+// Attributes whose values are URLs, and the schemes each one may use
+const LINK_SCHEMES = new Set(["http:", "https:", "mailto:", "tel:"]);
+const IMAGE_SCHEMES = new Set(["http:", "https:", "cid:", "data:"]);
+
+const URL_ATTRIBUTES: Record<string, Set<string>> = {
+	href: LINK_SCHEMES,
+	cite: new Set(["http:", "https:"]),
+	src: IMAGE_SCHEMES,
+	background: IMAGE_SCHEMES,
+};
+
+// data: URLs are only accepted for base64-encoded raster images
+const DATA_IMAGE_REGEX =
+	/^data:image\/(png|gif|jpe?g|webp);base64,[a-z0-9+/=]+$/i;
+
+const ALLOWED_CSS_PROPERTIES = new Set([
+	"background",
+	"background-color",
+	"background-image",
+	"background-position",
+	"background-repeat",
+	"background-size",
+	"border",
+	"border-bottom",
+	"border-bottom-color",
+	"border-bottom-left-radius",
+	"border-bottom-right-radius",
+	"border-bottom-style",
+	"border-bottom-width",
+	"border-collapse",
+	"border-color",
+	"border-left",
+	"border-left-color",
+	"border-left-style",
+	"border-left-width",
+	"border-radius",
+	"border-right",
+	"border-right-color",
+	"border-right-style",
+	"border-right-width",
+	"border-spacing",
+	"border-style",
+	"border-top",
+	"border-top-color",
+	"border-top-left-radius",
+	"border-top-right-radius",
+	"border-top-style",
+	"border-top-width",
+	"border-width",
+	"box-sizing",
+	"clear",
+	"color",
+	"direction",
+	"display",
+	"float",
+	"font",
+	"font-family",
+	"font-size",
+	"font-style",
+	"font-variant",
+	"font-weight",
+	"height",
+	"letter-spacing",
+	"line-height",
+	"list-style",
+	"list-style-position",
+	"list-style-type",
+	"margin",
+	"margin-bottom",
+	"margin-left",
+	"margin-right",
+	"margin-top",
+	"max-height",
+	"max-width",
+	"min-height",
+	"min-width",
+	"opacity",
+	"overflow",
+	"overflow-wrap",
+	"padding",
+	"padding-bottom",
+	"padding-left",
+	"padding-right",
+	"padding-top",
+	"table-layout",
+	"text-align",
+	"text-decoration",
+	"text-indent",
+	"text-transform",
+	"vertical-align",
+	"white-space",
+	"width",
+	"word-break",
+	"word-spacing",
+	"word-wrap",
+]);
+
+// Constructs that are never allowed in a CSS value
+const UNSAFE_CSS_VALUE_REGEX =
+	/expression\s*\(|javascript:|vbscript:|behavior|-moz-binding|@import|\\|<|&#|\/\*/i;
+
+const CSS_URL_REGEX = /url\(\s*(['"]?)(.*?)\1\s*\)/gi;
+
+// Only these at-rules keep their (sanitized) contents in stylesheets
+const NESTED_AT_RULES = new Set(["@media", "@supports"]);
+
+export interface SanitizeOptions {
+	// Remove tracking pixels and unwrap/strip click-tracking links
+	stripTracking?: boolean;
+	// Rewrites remote image URLs, e.g. to route them through the image proxy.
+	// Remote CSS url()s can't be rewritten and are dropped when this is set.
+	proxyImageUrl?: (url: string) => Promise<string>;
+	// Maps cid: references to the URL of the matching inline attachment.
+	// References that don't resolve are removed.
+	resolveContentId?: (contentId: string) => string | undefined;
+}
+
+// HTMLRewriter hands attribute values over exactly as written in the source
+function decodeAttribute(value: string): string {
+	return value
+		.replace(/&#x([0-9a-f]+);?/gi, (_, hex) =>
+			String.fromCodePoint(Number.parseInt(hex, 16)),
+		)
+		.replace(/&#(\d+);?/g, (_, dec) =>
+			String.fromCodePoint(Number.parseInt(dec, 10)),
+		)
+		.replace(/&quot;/gi, '"')
+		.replace(/&apos;/gi, "'")
+		.replace(/&lt;/gi, "<")
+		.replace(/&gt;/gi, ">")
+		.replace(/&amp;/gi, "&");
+}
+
+function encodeAttribute(value: string): string {
+	return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
+
+export function sanitizeUrl(
+	value: string,
+	schemes: Set<string> = LINK_SCHEMES,
+): string | undefined {
+	// Browsers ignore whitespace and control characters inside schemes
+	const url = value.replace(/[\p{Cc} ]/gu, "");
+	if (!url) {
+		return undefined;
+	}
+
+	if (url.startsWith("#")) {
+		return value.trim();
+	}
+
+	const schemeMatch = url.match(/^([a-z][a-z0-9+.-]*:)/i);
+	if (!schemeMatch) {
+		return undefined;
+	}
+
+	const scheme = schemeMatch[1].toLowerCase();
+	if (!schemes.has(scheme)) {
+		return undefined;
+	}
+
+	if (scheme === "data:") {
+		return DATA_IMAGE_REGEX.test(url) ? url : undefined;
+	}
+
+	return value.trim();
+}
+
+function sanitizeCssValue(
+	value: string,
+	allowRemoteUrls: boolean,
+): string | undefined {
+	if (UNSAFE_CSS_VALUE_REGEX.test(value)) {
+		return undefined;
+	}
+
+	for (const match of value.matchAll(CSS_URL_REGEX)) {
+		const url = sanitizeUrl(match[2], IMAGE_SCHEMES);
+		if (!url || (!allowRemoteUrls && /^https?:/i.test(url))) {
+			return undefined;
+		}
+	}
+
+	return value;
+}
+
+export function sanitizeCssDeclarations(
+	css: string,
+	allowRemoteUrls = true,
+): string {
+	const declarations: string[] = [];
+
+	for (const declaration of css.split(";")) {
+		const colon = declaration.indexOf(":");
+		if (colon === -1) {
+			continue;
+		}
+
+		const property = declaration.slice(0, colon).trim().toLowerCase();
+		const value = declaration.slice(colon + 1).trim();
+
+		if (!ALLOWED_CSS_PROPERTIES.has(property) || !value) {
+			continue;
+		}
+
+		const safeValue = sanitizeCssValue(value, allowRemoteUrls);
+		if (safeValue !== undefined) {
+			declarations.push(`${property}: ${safeValue}`);
+		}
+	}
+
+	return declarations.join("; ");
+}
+
+function findBlockEnd(css: string, openIndex: number): number {
+	let depth = 0;
+	for (let i = openIndex; i < css.length; i++) {
+		if (css[i] === "{") {
+			depth++;
+		} else if (css[i] === "}") {
+			depth--;
+			if (depth === 0) {
+				return i;
+			}
+		}
+	}
+	return css.length;
+}
+
+export function sanitizeStylesheet(
+	css: string,
+	allowRemoteUrls = true,
+): string {
+	// Strip comments and anything that could close the surrounding <style>
+	const source = css.replace(/\/\*[\s\S]*?\*\//g, "").replace(/</g, "");
+	const rules: string[] = [];
+	let index = 0;
+
+	while (index < source.length) {
+		const open = source.indexOf("{", index);
+		const semicolon = source.indexOf(";", index);
+
+		// Block-less statements such as @import and @charset are dropped
+		if (semicolon !== -1 && (open === -1 || semicolon < open)) {
+			index = semicolon + 1;
+			continue;
+		}
+
+		if (open === -1) {
+			break;
+		}
+
+		const prelude = source.slice(index, open).trim();
+		const close = findBlockEnd(source, open);
+		const body = source.slice(open + 1, close);
+		index = close + 1;
+
+		if (prelude.startsWith("@")) {
+			const atRule = prelude.split(/[\s(]/)[0].toLowerCase();
+			if (
+				NESTED_AT_RULES.has(atRule) &&
+				!UNSAFE_CSS_VALUE_REGEX.test(prelude)
+			) {
+				const inner = sanitizeStylesheet(body, allowRemoteUrls);
+				if (inner) {
+					rules.push(`${prelude}{${inner}}`);
+				}
+			}
+			continue;
+		}
+
+		if (!prelude || UNSAFE_CSS_VALUE_REGEX.test(prelude)) {
+			continue;
+		}
+
+		const declarations = sanitizeCssDeclarations(body, allowRemoteUrls);
+		if (declarations) {
+			rules.push(`${prelude}{${declarations}}`);
+		}
+	}
+
+	return rules.join("\n");
+}
+
+class ElementSanitizer implements HTMLRewriterElementContentHandlers {
+	constructor(private readonly options: SanitizeOptions) {}
+
+	async element(element: Element): Promise<void> {
+		const tagName = element.tagName.toLowerCase();
+
+		if (DROPPED_TAGS.has(tagName)) {
+			element.remove();
+			return;
+		}
+
+		if (!ALLOWED_TAGS.has(tagName)) {
+			element.removeAndKeepContent();
+			return;
+		}
+
+		if (
+			this.options.stripTracking &&
+			tagName === "img" &&
+			isTrackingPixel({
+				src: decodeAttribute(element.getAttribute("src") ?? ""),
+				width: element.getAttribute("width"),
+				height: element.getAttribute("height"),
+				style: element.getAttribute("style"),
+			})
+		) {
+			element.remove();
+			return;
+		}
+
+		const tagAttributes = TAG_ATTRIBUTES[tagName];
+		// The DOM lib's NamedNodeMap shadows the rewriter's attribute iterator type
+		const attributes = [
+			...(element.attributes as unknown as Iterable<[string, string]>),
+		];
+
+		for (const [rawName, value] of attributes) {
+			const name = rawName.toLowerCase();
+			const allowed =
+				tagName !== "style" &&
+				(GLOBAL_ATTRIBUTES.has(name) || tagAttributes?.has(name));
+
+			if (!allowed) {
+				element.removeAttribute(rawName);
+				continue;
+			}
+
+			// Rewritten values never contain double quotes, so they can't break
+			// out of the attribute regardless of how the rewriter serializes them
+			const schemes = URL_ATTRIBUTES[name];
+			if (schemes) {
+				let safeUrl = sanitizeUrl(value, schemes);
+				if (safeUrl === undefined) {
+					element.removeAttribute(rawName);
+					continue;
+				}
+
+				if (this.options.stripTracking && name === "href") {
+					safeUrl = encodeAttribute(cleanTrackingUrl(decodeAttribute(safeUrl)));
+				}
+
+				if (this.options.resolveContentId && /^cid:/i.test(safeUrl)) {
+					const resolved = this.options.resolveContentId(
+						decodeAttribute(safeUrl.slice(4)),
+					);
+					if (!resolved) {
+						element.removeAttribute(rawName);
+						continue;
+					}
+					safeUrl = encodeAttribute(resolved);
+				} else if (
+					this.options.proxyImageUrl &&
+					schemes === IMAGE_SCHEMES &&
+					/^https?:/i.test(safeUrl)
+				) {
+					safeUrl = encodeAttribute(
+						await this.options.proxyImageUrl(decodeAttribute(safeUrl)),
+					);
+				}
+
+				if (safeUrl !== value) {
+					element.setAttribute(rawName, safeUrl.replace(/"/g, "%22"));
+				}
+				continue;
+			}
+
+			if (name === "style") {
+				const safeStyle = sanitizeCssDeclarations(
+					value,
+					!this.options.proxyImageUrl,
+				);
+				if (safeStyle) {
+					element.setAttribute(rawName, safeStyle.replace(/"/g, "'"));
+				} else {
+					element.removeAttribute(rawName);
+				}
+			}
+		}
+
+		if (tagName === "a" && element.hasAttribute("href")) {
+			element.setAttribute("target", "_blank");
+			element.setAttribute("rel", "noopener noreferrer nofollow");
+		}
+	}
+}
+
+class StylesheetSanitizer implements HTMLRewriterElementContentHandlers {
+	private buffer = "";
+
+	constructor(private readonly allowRemoteUrls: boolean) {}
+
+	text(text: Text): void {
+		this.buffer += text.text;
+
+		if (!text.lastInTextNode) {
+			text.remove();
+			return;
+		}
+
+		text.replace(sanitizeStylesheet(this.buffer, this.allowRemoteUrls), {
+			html: true,
+		});
+		this.buffer = "";
+	}
+}
+
+export async function sanitizeHtml(
+	html: string,
+	options: SanitizeOptions = {},
+): Promise<string> {
+	if (!html) {
+		return "";
+	}
+
+	const rewriter = new HTMLRewriter()
+		.on("*", new ElementSanitizer(options))
+		.on("style", new StylesheetSanitizer(!options.proxyImageUrl))
+		.onDocument({
+			comments(comment) {
+				comment.remove();
+			},
+		});
+
+	// Doctypes can't be removed by HTMLRewriter, so strip them up front
+	const source = html.replace(/<!doctype[^>]*>/gi, "");
+
+	return rewriter.transform(new Response(source)).text();
+}
+
+// Content-Security-Policy for pages that render sanitized newsletter HTML.
+// Scripts, frames, plugins and form submissions are all disallowed.
+export const WEB_VIEW_CSP = [
+	"default-src 'none'",
+	"img-src 'self' data:",
+	"style-src 'unsafe-inline' https://fonts.googleapis.com",
+	"font-src https://fonts.gstatic.com",
+	"base-uri 'none'",
+	"form-action 'none'",
+	"frame-ancestors 'none'",
+].join("; ");
@@ -0,0 +1,251 @@
+import { timingSafeEqual } from "./auth.ts";
+
+// Replay-safe webhook signatures. Senders sign `${timestamp}.${body}` with
+// HMAC-SHA256 and send:
+//   x-webhook-timestamp: <unix seconds>
+//   x-webhook-signature: v1=<hex>[,v1=<hex>]
+// Two secrets can be active at once so they can be rotated without downtime.
+
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+const NONCE_PREFIX = "webhook:nonce:";
+
+// Failure counts are kept this long
+const FAILURE_LOG_DAYS = 7;
+const FAILURE_FLUSH_MS = 5_000;
+
+// KV rejects expirations shorter than a minute
+const MIN_KV_TTL_SECONDS = 60;
+
+export type VerificationFailureReason =
+	| "missing_signature"
+	| "invalid_signature"
+	| "stale_timestamp"
+	| "replayed";
+
+export interface VerificationFailure {
+	provider: string;
+	reason: VerificationFailureReason;
+	ip: string;
+	timestamp: string;
+}
+
+// Failures of one provider and reason within a minute
+export interface VerificationFailureCount {
+	// ISO timestamp truncated to the minute
+	minute: string;
+	provider: string;
+	reason: VerificationFailureReason;
+	count: number;
+	lastIp: string;
+	lastSeen: string;
+}
+
+export function activeSecrets(current: string, previous?: string): string[] {
+	return [current, previous].filter((secret): secret is string => !!secret);
+}
+
+export async function hmacHex(key: string, data: string): Promise<string> {
+	const encoder = new TextEncoder();
+	const cryptoKey = await crypto.subtle.importKey(
+		"raw",
+		encoder.encode(key),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"],
+	);
+	const signature = await crypto.subtle.sign(
+		"HMAC",
+		cryptoKey,
+		encoder.encode(data),
+	);
+	return [...new Uint8Array(signature)]
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join("");
+}
+
+export function isFreshTimestamp(timestamp: string, now = Date.now()): boolean {
+	const seconds = Number(timestamp);
+	if (!timestamp || !Number.isFinite(seconds)) {
+		return false;
+	}
+	return Math.abs(now / 1000 - seconds) <= SIGNATURE_TOLERANCE_SECONDS;
+}
+
+// Returns true if the token matches any of the active secrets
+export function matchesSecret(token: string, secrets: string[]): boolean {
+	let matched = false;
+	// Check every secret so timing doesn't reveal which one matched
+	for (const secret of secrets) {
+		matched = timingSafeEqual(token, secret) || matched;
+	}
+	return matched;
+}
+
+export async function verifySignedBody(
+	body: string,
+	headers: Headers,
+	secrets: string[],
+): Promise<
+	| { valid: true; signature: string }
+	| { valid: false; reason: VerificationFailureReason }
+> {
+	const timestamp = headers.get("x-webhook-timestamp") ?? "";
+	const signatureHeader = headers.get("x-webhook-signature") ?? "";
+
+	const provided = signatureHeader
+		.split(",")
+		.map((part) => part.trim())
+		.filter((part) => part.startsWith("v1="))
+		.map((part) => part.slice(3));
+
+	if (!timestamp || provided.length === 0) {
+		return { valid: false, reason: "missing_signature" };
+	}
+
+	if (!isFreshTimestamp(timestamp)) {
+		return { valid: false, reason: "stale_timestamp" };
+	}
+
+	let matched: string | undefined;
+	for (const secret of secrets) {
+		const expected = await hmacHex(secret, `${timestamp}.${body}`);
+		for (const signature of provided) {
+			if (timingSafeEqual(signature, expected)) {
+				matched = expected;
+			}
+		}
+	}
+
+	if (!matched) {
+		return { valid: false, reason: "invalid_signature" };
+	}
+
+	return { valid: true, signature: matched };
+}
+
+// Records a nonce for the length of the tolerance window. Returns false if it
+// was already seen. KV is eventually consistent, so this stops replays from
+// the same location reliably and others on a best-effort basis.
+export async function claimNonce(
+	kv: KVNamespace,
+	scope: string,
+	nonce: string,
+): Promise<boolean> {
+	const key = `${NONCE_PREFIX}${scope}:${nonce}`;
+	if (await kv.get(key)) {
+		return false;
+	}
+
+	await kv.put(key, "1", {
+		expirationTtl: Math.max(
+			SIGNATURE_TOLERANCE_SECONDS * 2,
+			MIN_KV_TTL_SECONDS,
+		),
+	});
+	return true;
+}
+
+// Failure log. Each isolate adds failures up in memory and writes a row's
+// count at most once per FAILURE_FLUSH_MS, so an attacker sending bad
+// requests drives neither the row count nor the write rate.
+
+interface PendingFailures {
+	failure: VerificationFailure;
+	minute: string;
+	count: number;
+}
+
+const pendingFailures = new Map<string, PendingFailures>();
+
+export function recordVerificationFailure(
+	db: D1Database,
+	failure: VerificationFailure,
+	waitUntil: (promise: Promise<unknown>) => void,
+): void {
+	const minute = failure.timestamp.slice(0, 16);
+	const key = `${minute}|${failure.provider}|${failure.reason}`;
+	const pending = pendingFailures.get(key);
+	if (pending) {
+		pending.count++;
+		pending.failure = failure;
+		return;
+	}
+
+	pendingFailures.set(key, { failure, minute, count: 1 });
+	waitUntil(
+		(async () => {
+			await new Promise((resolve) => setTimeout(resolve, FAILURE_FLUSH_MS));
+			const flushed = pendingFailures.get(key);
+			pendingFailures.delete(key);
+			if (flushed) {
+				await writeFailures(db, flushed);
+			}
+		})(),
+	);
+}
+
+async function writeFailures(
+	db: D1Database,
+	{ failure, minute, count }: PendingFailures,
+): Promise<void> {
+	await db
+		.prepare(
+			`INSERT INTO webhook_failures (minute, provider, reason, count, last_ip, last_seen)
+			VALUES (?1, ?2, ?3, ?4, ?5, ?6)
+			ON CONFLICT (minute, provider, reason) DO UPDATE SET
+				count = count + ?4, last_ip = ?5, last_seen = ?6`,
+		)
+		.bind(
+			minute,
+			failure.provider,
+			failure.reason,
+			count,
+			failure.ip,
+			failure.timestamp,
+		)
+		.run();
+}
+
+// Newest first
+export async function listVerificationFailures(
+	db: D1Database,
+	limit: number,
+): Promise<VerificationFailureCount[]> {
+	const { results } = await db
+		.prepare(
+			`SELECT minute, provider, reason, count, last_ip, last_seen
+			FROM webhook_failures ORDER BY last_seen DESC LIMIT ?`,
+		)
+		.bind(limit)
+		.all<{
+			minute: string;
+			provider: string;
+			reason: VerificationFailureReason;
+			count: number;
+			last_ip: string;
+			last_seen: string;
+		}>();
+
+	return results.map((row) => ({
+		minute: row.minute,
+		provider: row.provider,
+		reason: row.reason,
+		count: row.count,
+		lastIp: row.last_ip,
+		lastSeen: row.last_seen,
+	}));
+}
+
+export async function pruneVerificationFailures(
+	db: D1Database,
+): Promise<number> {
+	const cutoff = new Date(
+		Date.now() - FAILURE_LOG_DAYS * 24 * 60 * 60 * 1000,
+	).toISOString();
+	const result = await db
+		.prepare("DELETE FROM webhook_failures WHERE last_seen < ?")
+		.bind(cutoff)
+		.run();
+	return result.meta.changes;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import {
+	MAX_UNSUBSCRIBE_SENDERS,
+	parseListUnsubscribe,
+	parseUnsubscribeRequest,
+} from "./unsubscribe.ts";
+
+describe("parseUnsubscribeRequest", () => {
+	test("unsubscribes from every sender without a body or senders", () => {
+		expect(parseUnsubscribeRequest("")).toEqual({ status: "ok" });
+		expect(parseUnsubscribeRequest("{}")).toEqual({ status: "ok" });
+	});
+
+	test("accepts a list of senders", () => {
+		expect(parseUnsubscribeRequest('{"senders":["news@example.com"]}')).toEqual(
+			{ status: "ok", senders: ["news@example.com"] },
+		);
+	});
+
+	test("rejects malformed JSON", () => {
+		expect(parseUnsubscribeRequest('{"senders":')).toEqual({
+			status: "invalid",
+			error: "Invalid JSON",
+		});
+	});
+
+	test("rejects bodies that aren't objects and invalid sender lists", () => {
+		for (const body of ["null", "[]", '"all"']) {
+			expect(parseUnsubscribeRequest(body).status).toBe("invalid");
+		}
+
+		const tooMany = Array.from(
+			{ length: MAX_UNSUBSCRIBE_SENDERS + 1 },
+			(_, i) => `sender${i}@example.com`,
+		);
+		for (const senders of [[], [1], "news@example.com", tooMany]) {
+			expect(parseUnsubscribeRequest(JSON.stringify({ senders }))).toEqual({
+				status: "invalid",
+				error: `senders must list 1 to ${MAX_UNSUBSCRIBE_SENDERS} sender addresses`,
+			});
+		}
+	});
+});
+
+describe("parseListUnsubscribe", () => {
+	const headers = {
+		"list-unsubscribe":
+			"<mailto:leave@example.com>, <https://example.com/unsubscribe/abc>",
+		"list-unsubscribe-post": "List-Unsubscribe=One-Click",
+		"dkim-signature":
+			"v=1; a=rsa-sha256; d=example.com; s=s1; h=from:subject:list-unsubscribe:list-unsubscribe-post; b=abc",
+		"authentication-results":
+			"mx.example.net; dkim=pass header.d=example.com header.s=s1",
+	};
+
+	test("allows one-click for a verified signature from the sender's domain", () => {
+		expect(parseListUnsubscribe(headers, "news@mail.example.com")).toEqual({
+			url: "https://example.com/unsubscribe/abc",
+			mailto: "mailto:leave@example.com",
+			oneClick: true,
+			authenticated: true,
+		});
+	});
+
+	test("keeps only manual links from unauthenticated mail", () => {
+		for (const [message, sender] of [
+			[headers, "news@other.com"],
+			[
+				{
+					...headers,
+					"authentication-results":
+						"mx.example.net; dkim=fail header.d=example.com",
+				},
+				"news@example.com",
+			],
+			[
+				{
+					...headers,
+					"dkim-signature":
+						"v=1; d=example.com; h=from:list-unsubscribe; b=abc",
+				},
+				"news@example.com",
+			],
+		] as const) {
+			expect(parseListUnsubscribe(message, sender)?.oneClick).toBe(false);
+		}
+	});
+});
@@ -0,0 +1,390 @@
+// List-Unsubscribe handling. Each message's List-Unsubscribe header (RFC 2369)
+// is kept per sender, so the user can leave newsletters before deleting the
+// feed that receives them. Senders that also send
+//   List-Unsubscribe-Post: List-Unsubscribe=One-Click
+// support RFC 8058 one-click unsubscribe, a POST we can make for the user;
+// for the rest the mailto: or web link is returned to act on by hand.
+// One-click is only trusted from messages whose DKIM signature covers both
+// headers (RFC 8058 section 4), since senders are keyed by the From address.
+
+// Senders listed or named in one request, and unsubscribed from in parallel
+export const MAX_UNSUBSCRIBE_SENDERS = 50;
+
+const UNSUBSCRIBE_TIMEOUT_MS = 10_000;
+
+const MAX_URL_LENGTH = 2048;
+
+// Keep error messages short
+const MAX_ERROR_LENGTH = 200;
+
+export interface UnsubscribeOptions {
+	// https link; the one-click target when oneClick is set
+	url?: string;
+	mailto?: string;
+	oneClick: boolean;
+	// The sender's domain signed the List-Unsubscribe header
+	authenticated: boolean;
+}
+
+export interface UnsubscribeLink extends UnsubscribeOptions {
+	sender: string;
+	updatedAt: string;
+	unsubscribedAt?: string;
+}
+
+export type UnsubscribeStatus = "unsubscribed" | "failed" | "manual";
+
+export interface UnsubscribeResult {
+	sender: string;
+	status: UnsubscribeStatus;
+	statusCode?: number;
+	error?: string;
+	// Links to follow by hand when one-click isn't available or failed
+	url?: string;
+	mailto?: string;
+}
+
+export type UnsubscribeRequestResult =
+	| { status: "ok"; senders?: string[] }
+	| { status: "invalid"; error: string };
+
+interface UnsubscribeRow {
+	sender: string;
+	url: string | null;
+	mailto: string | null;
+	one_click: number;
+	authenticated: number;
+	updated_at: string;
+	unsubscribed_at: string | null;
+}
+
+function mapLink(row: UnsubscribeRow): UnsubscribeLink {
+	return {
+		sender: row.sender,
+		url: row.url ?? undefined,
+		mailto: row.mailto ?? undefined,
+		oneClick: row.one_click === 1,
+		authenticated: row.authenticated === 1,
+		updatedAt: row.updated_at,
+		unsubscribedAt: row.unsubscribed_at ?? undefined,
+	};
+}
+
+// Tag list of a DKIM-Signature header (RFC 6376 section 3.2), e.g.
+// "v=1; d=example.com; h=from:subject"
+function parseTags(value: string): Record<string, string> {
+	const tags: Record<string, string> = {};
+	for (const part of value.split(";")) {
+		const equals = part.indexOf("=");
+		if (equals !== -1) {
+			tags[part.slice(0, equals).trim().toLowerCase()] = part
+				.slice(equals + 1)
+				.replace(/\s+/g, "");
+		}
+	}
+	return tags;
+}
+
+// Domains the receiving server verified a DKIM signature for, from its
+// Authentication-Results header (RFC 8601), e.g.
+// "mx.example.net; dkim=pass (2048-bit key) header.d=example.com"
+function dkimPassDomains(value: string | undefined): string[] {
+	const domains: string[] = [];
+	for (const result of value?.split(";") ?? []) {
+		if (!/^\s*dkim\s*=\s*pass\b/i.test(result)) {
+			continue;
+		}
+		const domain =
+			result.match(/\bheader\.d\s*=\s*([^\s;]+)/i)?.[1] ??
+			result.match(/\bheader\.i\s*=\s*[^\s;@]*@([^\s;]+)/i)?.[1];
+		if (domain) {
+			domains.push(domain.toLowerCase());
+		}
+	}
+	return domains;
+}
+
+// Lowercased names of the headers a verified DKIM signature from the sender's
+// domain (or a parent of it) covers. Only the first DKIM-Signature and
+// Authentication-Results headers are kept; the latter is the receiving
+// server's, added above anything the sender wrote.
+function signedHeaderNames(
+	headers: Record<string, string>,
+	sender: string,
+): string[] {
+	const signature = parseTags(headers["dkim-signature"] ?? "");
+	const domain = signature.d?.toLowerCase();
+	const senderDomain = sender.slice(sender.lastIndexOf("@") + 1).toLowerCase();
+	if (
+		!domain ||
+		!(senderDomain === domain || senderDomain.endsWith(`.${domain}`)) ||
+		!dkimPassDomains(headers["authentication-results"]).includes(domain)
+	) {
+		return [];
+	}
+	return (signature.h ?? "").toLowerCase().split(":");
+}
+
+// List-Unsubscribe: <mailto:leave@example.com?subject=unsubscribe>,
+//   <https://example.com/unsubscribe/abc>
+// Only the first mailto: and https: entries are kept.
+export function parseListUnsubscribe(
+	headers: Record<string, string>,
+	sender: string,
+): UnsubscribeOptions | undefined {
+	const value = headers["list-unsubscribe"];
+	if (!value) {
+		return undefined;
+	}
+
+	let url: string | undefined;
+	let mailto: string | undefined;
+	for (const match of value.matchAll(/<([^>]+)>/g)) {
+		const entry = match[1].replace(/\s+/g, "");
+		if (entry.length > MAX_URL_LENGTH) {
+			continue;
+		}
+		if (!mailto && /^mailto:/i.test(entry)) {
+			mailto = entry;
+		} else if (!url && /^https:\/\//i.test(entry) && URL.canParse(entry)) {
+			url = entry;
+		}
+	}
+	if (!url && !mailto) {
+		return undefined;
+	}
+
+	// RFC 8058 one-click needs an https link to POST to and both headers
+	// signed
+	const signed = signedHeaderNames(headers, sender);
+	const authenticated = signed.includes("list-unsubscribe");
+	const oneClick =
+		!!url &&
+		authenticated &&
+		signed.includes("list-unsubscribe-post") &&
+		/^\s*List-Unsubscribe\s*=\s*One-Click\s*$/i.test(
+			headers["list-unsubscribe-post"] ?? "",
+		);
+
+	return { url, mailto, oneClick, authenticated };
+}
+
+// Validates an unsubscribe request body. Without one, or without senders,
+// every sender is unsubscribed from.
+export function parseUnsubscribeRequest(
+	text: string,
+): UnsubscribeRequestResult {
+	if (!text) {
+		return { status: "ok" };
+	}
+
+	let body: unknown;
+	try {
+		body = JSON.parse(text);
+	} catch {
+		return { status: "invalid", error: "Invalid JSON" };
+	}
+	if (!body || typeof body !== "object" || Array.isArray(body)) {
+		return { status: "invalid", error: "Body must be an object" };
+	}
+
+	const { senders } = body as { senders?: unknown };
+	if (senders === undefined) {
+		return { status: "ok" };
+	}
+	if (
+		!Array.isArray(senders) ||
+		senders.length === 0 ||
+		senders.length > MAX_UNSUBSCRIBE_SENDERS ||
+		!senders.every((sender) => typeof sender === "string")
+	) {
+		return {
+			status: "invalid",
+			error: `senders must list 1 to ${MAX_UNSUBSCRIBE_SENDERS} sender addresses`,
+		};
+	}
+	return { status: "ok", senders };
+}
+
+// RFC 8058 section 3.1: a POST with the fixed form body, no cookies or
+// credentials
+export async function oneClickUnsubscribe(
+	url: string,
+): Promise<{ ok: boolean; statusCode?: number; error?: string }> {
+	try {
+		const response = await fetch(url, {
+			method: "POST",
+			headers: {
+				"content-type": "application/x-www-form-urlencoded",
+				"user-agent": "unletter-unsubscribe",
+			},
+			body: "List-Unsubscribe=One-Click",
+			redirect: "follow",
+			signal: AbortSignal.timeout(UNSUBSCRIBE_TIMEOUT_MS),
+		});
+		return {
+			ok: response.ok,
+			statusCode: response.status,
+			error: response.ok ? undefined : response.statusText || undefined,
+		};
+	} catch (error) {
+		return { ok: false, error: String(error).slice(0, MAX_ERROR_LENGTH) };
+	}
+}
+
+// Uses one-click where the sender offers it and hands back the links
+// otherwise
+export async function unsubscribeSender(
+	link: UnsubscribeLink,
+): Promise<UnsubscribeResult> {
+	const manual = { sender: link.sender, url: link.url, mailto: link.mailto };
+	if (!link.oneClick || !link.url) {
+		return { ...manual, status: "manual" };
+	}
+
+	const attempt = await oneClickUnsubscribe(link.url);
+	return attempt.ok
+		? {
+				sender: link.sender,
+				status: "unsubscribed",
+				statusCode: attempt.statusCode,
+			}
+		: {
+				...manual,
+				status: "failed",
+				statusCode: attempt.statusCode,
+				error: attempt.error,
+			};
+}
+
+// D1 links
+
+// A newer message only replaces an authenticated sender's links when it's
+// authenticated too, so forged mail can't swap in its own
+export async function saveUnsubscribeLink(
+	db: D1Database,
+	feedId: string,
+	sender: string,
+	options: UnsubscribeOptions,
+	receivedAt: string,
+): Promise<void> {
+	await db
+		.prepare(
+			`INSERT INTO unsubscribe_links
+				(feed_id, sender, url, mailto, one_click, authenticated, updated_at)
+			VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7)
+			ON CONFLICT (feed_id, sender) DO UPDATE SET
+				url = ?3, mailto = ?4, one_click = ?5, authenticated = ?6,
+				updated_at = ?7
+			WHERE updated_at <= ?7 AND (authenticated = 0 OR ?6 = 1)`,
+		)
+		.bind(
+			feedId,
+			sender.toLowerCase(),
+			options.url ?? null,
+			options.mailto ?? null,
+			options.oneClick ? 1 : 0,
+			options.authenticated ? 1 : 0,
+			receivedAt,
+		)
+		.run();
+}
+
+// Most recently seen first. With senders, only those are returned.
+export async function listUnsubscribeLinks(
+	db: D1Database,
+	feedId: string,
+	limit: number,
+	senders?: string[],
+): Promise<UnsubscribeLink[]> {
+	const statement = senders
+		? db
+				.prepare(
+					`SELECT sender, url, mailto, one_click, authenticated, updated_at,
+						unsubscribed_at
+					FROM unsubscribe_links
+					WHERE feed_id = ? AND sender IN (SELECT value FROM json_each(?))
+					ORDER BY updated_at DESC, sender LIMIT ?`,
+				)
+				.bind(
+					feedId,
+					JSON.stringify(senders.map((sender) => sender.toLowerCase())),
+					limit,
+				)
+		: db
+				.prepare(
+					`SELECT sender, url, mailto, one_click, authenticated, updated_at,
+						unsubscribed_at
+					FROM unsubscribe_links WHERE feed_id = ?
+					ORDER BY updated_at DESC, sender LIMIT ?`,
+				)
+				.bind(feedId, limit);
+
+	const { results } = await statement.all<UnsubscribeRow>();
+	return results.map(mapLink);
+}
+
+// Pages through every sender in address order, which new mail arriving
+// mid-way doesn't shuffle. Pass the last sender of a page to get the next.
+export async function pageUnsubscribeLinks(
+	db: D1Database,
+	feedId: string,
+	limit: number,
+	afterSender = "",
+): Promise<UnsubscribeLink[]> {
+	const { results } = await db
+		.prepare(
+			`SELECT sender, url, mailto, one_click, authenticated, updated_at,
+				unsubscribed_at
+			FROM unsubscribe_links WHERE feed_id = ? AND sender > ?
+			ORDER BY sender LIMIT ?`,
+		)
+		.bind(feedId, afterSender, limit)
+		.all<UnsubscribeRow>();
+	return results.map(mapLink);
+}
+
+export async function markUnsubscribed(
+	db: D1Database,
+	feedId: string,
+	senders: string[],
+): Promise<void> {
+	if (senders.length === 0) {
+		return;
+	}
+	await db
+		.prepare(
+			`UPDATE unsubscribe_links SET unsubscribed_at = ?
+			WHERE feed_id = ? AND sender IN (SELECT value FROM json_each(?))`,
+		)
+		.bind(new Date().toISOString(), feedId, JSON.stringify(senders))
+		.run();
+}
+
+// Used when feeds are merged; the target's own row wins for a shared sender
+export async function moveUnsubscribeLinks(
+	db: D1Database,
+	fromFeedId: string,
+	toFeedId: string,
+): Promise<void> {
+	await db.batch([
+		db
+			.prepare(
+				"UPDATE OR IGNORE unsubscribe_links SET feed_id = ? WHERE feed_id = ?",
+			)
+			.bind(toFeedId, fromFeedId),
+		db
+			.prepare("DELETE FROM unsubscribe_links WHERE feed_id = ?")
+			.bind(fromFeedId),
+	]);
+}
+
+export async function removeFeedUnsubscribeLinks(
+	db: D1Database,
+	feedId: string,
+): Promise<void> {
+	await db
+		.prepare("DELETE FROM unsubscribe_links WHERE feed_id = ?")
+		.bind(feedId)
+		.run();
+}
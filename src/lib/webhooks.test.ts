@@ -0,0 +1,301 @@
+import { Database, type SQLQueryBindings } from "bun:sqlite";
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { readdirSync, readFileSync } from "node:fs";
+import type { FeedWebhook, WebhookJob } from "../types.ts";
+import { verifySignedBody } from "./signatures.ts";
+import {
+	attemptDelivery,
+	createDeliveries,
+	deliverWebhook,
+	failDeliveries,
+	listDeliveries,
+	MAX_DELIVERY_ATTEMPTS,
+	retryDelaySeconds,
+} from "./webhooks.ts";
+
+type Row = Record<string, unknown>;
+
+// D1 binds the same value types SQLite stores
+function toBinding(value: unknown): SQLQueryBindings {
+	if (
+		value === null ||
+		typeof value === "string" ||
+		typeof value === "number" ||
+		typeof value === "bigint" ||
+		typeof value === "boolean" ||
+		value instanceof Uint8Array
+	) {
+		return value;
+	}
+	throw new TypeError(`Unsupported D1 binding: ${String(value)}`);
+}
+
+function result<T>(results: T[], changes = 0): D1Result<T> {
+	return {
+		success: true,
+		meta: {
+			duration: 0,
+			size_after: 0,
+			rows_read: results.length,
+			rows_written: changes,
+			last_row_id: 0,
+			changed_db: changes > 0,
+			changes,
+		},
+		results,
+	};
+}
+
+// D1 statement over bun:sqlite; rows come back untyped, as they do from D1
+class SqliteStatement implements D1PreparedStatement {
+	constructor(
+		private readonly sqlite: Database,
+		private readonly sql: string,
+		private readonly params: SQLQueryBindings[] = [],
+	) {}
+
+	bind(...values: unknown[]): D1PreparedStatement {
+		return new SqliteStatement(this.sqlite, this.sql, values.map(toBinding));
+	}
+
+	async first<T>(column?: string): Promise<T | null> {
+		const row = this.query().get(...this.params);
+		return (row && column ? row[column] : row) as T | null;
+	}
+
+	async run<T = Row>(): Promise<D1Result<T>> {
+		const { changes } = this.query().run(...this.params);
+		return result<T>([], changes);
+	}
+
+	async all<T = Row>(): Promise<D1Result<T>> {
+		return result(this.query().all(...this.params) as T[]);
+	}
+
+	async raw(): Promise<never> {
+		throw new Error("raw() isn't supported");
+	}
+
+	private query() {
+		return this.sqlite.query<Row, SQLQueryBindings[]>(this.sql);
+	}
+}
+
+// D1 stand-in over an in-memory bun:sqlite database with the repo's
+// migrations applied
+class SqliteDatabase implements D1Database {
+	private readonly sqlite = new Database(":memory:");
+
+	constructor() {
+		const migrations = new URL("../../migrations/", import.meta.url);
+		for (const file of readdirSync(migrations).sort()) {
+			this.sqlite.exec(readFileSync(new URL(file, migrations), "utf8"));
+		}
+	}
+
+	prepare(query: string): D1PreparedStatement {
+		return new SqliteStatement(this.sqlite, query);
+	}
+
+	async batch<T = unknown>(
+		statements: D1PreparedStatement[],
+	): Promise<D1Result<T>[]> {
+		return Promise.all(statements.map((statement) => statement.all<T>()));
+	}
+
+	async exec(query: string): Promise<D1ExecResult> {
+		this.sqlite.exec(query);
+		return { count: 1, duration: 0 };
+	}
+
+	withSession(): never {
+		throw new Error("Sessions aren't supported");
+	}
+
+	async dump(): Promise<never> {
+		throw new Error("dump() isn't supported");
+	}
+}
+
+// Local stand-in for a subscriber's endpoint. Answers with the queued status
+// codes in order, then 200.
+const received: { headers: Headers; body: string }[] = [];
+const statuses: number[] = [];
+const receiver = Bun.serve({
+	port: 0,
+	async fetch(request) {
+		received.push({ headers: request.headers, body: await request.text() });
+		return new Response(null, { status: statuses.shift() ?? 200 });
+	},
+});
+
+afterAll(() => receiver.stop(true));
+
+const webhook: FeedWebhook = {
+	id: "hook1",
+	url: `http://localhost:${receiver.port}/hook`,
+	secret: "whsec_test-secret-value",
+	events: ["email.received"],
+	createdAt: "2026-01-01T00:00:00.000Z",
+};
+
+function createJob(deliveryId = "delivery1"): WebhookJob {
+	return {
+		kind: "webhook",
+		deliveryId,
+		feedId: "feed1",
+		webhookId: webhook.id,
+		payload: {
+			id: deliveryId,
+			event: "email.received",
+			createdAt: "2026-01-01T00:00:00.000Z",
+			feed: {
+				id: "feed1",
+				name: "Feed",
+				url: "https://unletter.app/feeds/feed1",
+			},
+			email: {
+				id: "email1",
+				subject: "Hello",
+				from: { name: "Sender", email: "sender@example.com" },
+				timestamp: "2026-01-01T00:00:00.000Z",
+				viewUrl: "https://unletter.app/feeds/feed1/view/email1",
+				attachments: [],
+			},
+		},
+	};
+}
+
+let db: D1Database;
+
+beforeEach(() => {
+	db = new SqliteDatabase();
+	received.length = 0;
+	statuses.length = 0;
+});
+
+describe("deliverWebhook", () => {
+	test("signs the payload like the generic inbound webhook", async () => {
+		const job = createJob();
+		const attempt = await deliverWebhook(webhook, job.payload);
+
+		expect(attempt).toEqual({ ok: true, statusCode: 200, error: undefined });
+		expect(received).toHaveLength(1);
+
+		const { headers, body } = received[0];
+		expect(JSON.parse(body)).toEqual(job.payload);
+		expect(headers.get("x-webhook-id")).toBe("delivery1");
+		expect(headers.get("x-webhook-event")).toBe("email.received");
+
+		const verified = await verifySignedBody(body, headers, [webhook.secret]);
+		expect(verified.valid).toBe(true);
+
+		const forged = await verifySignedBody(body, headers, [
+			"whsec_some-other-secret",
+		]);
+		expect(forged).toEqual({ valid: false, reason: "invalid_signature" });
+	});
+
+	test("reports the receiver's error status", async () => {
+		statuses.push(500);
+		const attempt = await deliverWebhook(webhook, createJob().payload);
+
+		expect(attempt.ok).toBe(false);
+		expect(attempt.statusCode).toBe(500);
+	});
+});
+
+describe("retryDelaySeconds", () => {
+	test("doubles from 30 seconds up to an hour", () => {
+		expect([1, 2, 3, 4].map(retryDelaySeconds)).toEqual([30, 60, 120, 240]);
+		expect(retryDelaySeconds(MAX_DELIVERY_ATTEMPTS)).toBe(3600);
+	});
+});
+
+describe("attemptDelivery", () => {
+	test("logs a failed attempt as pending and retries it", async () => {
+		const job = createJob();
+		await createDeliveries(db, [job]);
+		statuses.push(503);
+
+		expect(await attemptDelivery(db, webhook, job, 1)).toBe(30);
+		let [delivery] = await listDeliveries(db, "feed1", webhook.id, 10);
+		expect(delivery).toMatchObject({
+			status: "pending",
+			attempts: 1,
+			lastStatusCode: 503,
+		});
+
+		expect(await attemptDelivery(db, webhook, job, 2)).toBeUndefined();
+		[delivery] = await listDeliveries(db, "feed1", webhook.id, 10);
+		expect(delivery).toMatchObject({
+			status: "succeeded",
+			attempts: 2,
+			lastStatusCode: 200,
+		});
+		expect(received).toHaveLength(2);
+	});
+
+	test("gives up after the last attempt", async () => {
+		const job = createJob();
+		await createDeliveries(db, [job]);
+		statuses.push(500);
+
+		expect(
+			await attemptDelivery(db, webhook, job, MAX_DELIVERY_ATTEMPTS),
+		).toBeUndefined();
+		const [delivery] = await listDeliveries(db, "feed1", webhook.id, 10);
+		expect(delivery).toMatchObject({
+			status: "failed",
+			attempts: MAX_DELIVERY_ATTEMPTS,
+			lastStatusCode: 500,
+		});
+	});
+
+	test("fails deliveries whose webhook was deleted without sending", async () => {
+		const job = createJob();
+		await createDeliveries(db, [job]);
+
+		expect(await attemptDelivery(db, undefined, job, 1)).toBeUndefined();
+		const [delivery] = await listDeliveries(db, "feed1", webhook.id, 10);
+		expect(delivery).toMatchObject({
+			status: "failed",
+			attempts: 0,
+			lastError: "Webhook was deleted",
+		});
+		expect(received).toHaveLength(0);
+	});
+});
+
+describe("delivery log", () => {
+	test("lists queued deliveries as pending, newest first", async () => {
+		const older = createJob("delivery1");
+		const newer = createJob("delivery2");
+		newer.payload.createdAt = "2026-01-02T00:00:00.000Z";
+		await createDeliveries(db, [older, newer]);
+
+		const deliveries = await listDeliveries(db, "feed1", webhook.id, 10);
+		expect(deliveries.map(({ id, status }) => [id, status])).toEqual([
+			["delivery2", "pending"],
+			["delivery1", "pending"],
+		]);
+	});
+
+	test("fails deliveries that couldn't be queued", async () => {
+		await createDeliveries(db, [
+			createJob("delivery1"),
+			createJob("delivery2"),
+		]);
+		await failDeliveries(db, ["delivery1", "delivery2"], "Queue unavailable");
+
+		const deliveries = await listDeliveries(db, "feed1", webhook.id, 10);
+		expect(deliveries).toHaveLength(2);
+		for (const delivery of deliveries) {
+			expect(delivery).toMatchObject({
+				status: "failed",
+				attempts: 0,
+				lastError: "Queue unavailable",
+			});
+		}
+	});
+});
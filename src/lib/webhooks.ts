@@ -0,0 +1,345 @@
+import { nanoid } from "nanoid";
+import type {
+	FeedWebhook,
+	WebhookEvent,
+	WebhookJob,
+	WebhookPayload,
+} from "../types.ts";
+import { hmacHex } from "./signatures.ts";
+
+// Outbound webhooks. Matching webhooks get a delivery row and a queue message
+// when mail is stored; the queue consumer POSTs the payload and retries with
+// exponential backoff. Requests are signed the same way as our inbound generic
+// webhook:
+//   x-webhook-timestamp: <unix seconds>
+//   x-webhook-signature: v1=<hex HMAC-SHA256 of `${timestamp}.${body}`>
+
+export const MAX_WEBHOOKS_PER_FEED = 10;
+
+// Attempts per delivery, including the first
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+const WEBHOOK_EVENTS = new Set<WebhookEvent>([
+	"email.received",
+	"email.quarantined",
+]);
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+const BASE_RETRY_DELAY_SECONDS = 30;
+const MAX_RETRY_DELAY_SECONDS = 60 * 60;
+
+// Delivery rows are kept this long for the log
+const DELIVERY_LOG_DAYS = 30;
+
+// Keep error messages in the log short
+const MAX_ERROR_LENGTH = 200;
+
+export type DeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface WebhookDelivery {
+	id: string;
+	webhookId: string;
+	event: WebhookEvent;
+	emailId: string;
+	status: DeliveryStatus;
+	attempts: number;
+	lastStatusCode?: number;
+	lastError?: string;
+	createdAt: string;
+	updatedAt: string;
+}
+
+export interface DeliveryAttempt {
+	ok: boolean;
+	statusCode?: number;
+	error?: string;
+}
+
+export type WebhookParseResult =
+	| { status: "ok"; webhook: FeedWebhook }
+	| { status: "invalid"; error: string };
+
+export function generateWebhookSecret(): string {
+	return `whsec_${nanoid(32)}`;
+}
+
+// Validates a webhook from a request body. A secret is generated when none is
+// given.
+export function parseFeedWebhook(value: unknown): WebhookParseResult {
+	if (!value || typeof value !== "object" || Array.isArray(value)) {
+		return { status: "invalid", error: "Webhook must be an object" };
+	}
+
+	const input = value as Record<string, unknown>;
+
+	let url: URL | undefined;
+	try {
+		url = typeof input.url === "string" ? new URL(input.url) : undefined;
+	} catch {
+		url = undefined;
+	}
+	if (url?.protocol !== "https:") {
+		return { status: "invalid", error: "url must be an https URL" };
+	}
+
+	const events = input.events ?? ["email.received"];
+	if (
+		!Array.isArray(events) ||
+		events.length === 0 ||
+		!events.every((event) => WEBHOOK_EVENTS.has(event))
+	) {
+		return {
+			status: "invalid",
+			error: "events must list email.received and/or email.quarantined",
+		};
+	}
+
+	if (
+		input.secret !== undefined &&
+		(typeof input.secret !== "string" ||
+			input.secret.length < 16 ||
+			input.secret.length > 200)
+	) {
+		return {
+			status: "invalid",
+			error: "secret must be 16 to 200 characters",
+		};
+	}
+
+	return {
+		status: "ok",
+		webhook: {
+			id: nanoid(10),
+			url: url.toString(),
+			secret: input.secret ?? generateWebhookSecret(),
+			events: [...new Set(events as WebhookEvent[])],
+			createdAt: new Date().toISOString(),
+		},
+	};
+}
+
+export function retryDelaySeconds(attempt: number): number {
+	return Math.min(
+		BASE_RETRY_DELAY_SECONDS * 2 ** (attempt - 1),
+		MAX_RETRY_DELAY_SECONDS,
+	);
+}
+
+export async function deliverWebhook(
+	webhook: FeedWebhook,
+	payload: WebhookPayload,
+): Promise<DeliveryAttempt> {
+	const body = JSON.stringify(payload);
+	const timestamp = String(Math.floor(Date.now() / 1000));
+	const signature = await hmacHex(webhook.secret, `${timestamp}.${body}`);
+
+	try {
+		const response = await fetch(webhook.url, {
+			method: "POST",
+			headers: {
+				"content-type": "application/json",
+				"user-agent": "unletter-webhooks",
+				"x-webhook-id": payload.id,
+				"x-webhook-event": payload.event,
+				"x-webhook-timestamp": timestamp,
+				"x-webhook-signature": `v1=${signature}`,
+			},
+			body,
+			signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+		});
+		return {
+			ok: response.ok,
+			statusCode: response.status,
+			error: response.ok ? undefined : response.statusText || undefined,
+		};
+	} catch (error) {
+		return {
+			ok: false,
+			error: String(error).slice(0, MAX_ERROR_LENGTH),
+		};
+	}
+}
+
+// Delivery log
+
+// Logs queued deliveries as pending
+export async function createDeliveries(
+	db: D1Database,
+	jobs: WebhookJob[],
+): Promise<void> {
+	if (jobs.length === 0) {
+		return;
+	}
+
+	const statement = db.prepare(
+		`INSERT INTO webhook_deliveries
+			(id, feed_id, webhook_id, event, email_id, status, attempts, created_at, updated_at)
+		VALUES (?, ?, ?, ?, ?, 'pending', 0, ?, ?)`,
+	);
+	await db.batch(
+		jobs.map(({ deliveryId, feedId, webhookId, payload }) =>
+			statement.bind(
+				deliveryId,
+				feedId,
+				webhookId,
+				payload.event,
+				payload.email.id,
+				payload.createdAt,
+				payload.createdAt,
+			),
+		),
+	);
+}
+
+// Fails deliveries that were logged but never made it onto the queue, so they
+// don't stay pending forever
+export async function failDeliveries(
+	db: D1Database,
+	deliveryIds: string[],
+	error: string,
+): Promise<void> {
+	if (deliveryIds.length === 0) {
+		return;
+	}
+
+	const statement = db.prepare(
+		`UPDATE webhook_deliveries SET status = 'failed', last_error = ?, updated_at = ?
+		WHERE id = ?`,
+	);
+	const updatedAt = new Date().toISOString();
+	await db.batch(
+		deliveryIds.map((deliveryId) =>
+			statement.bind(error.slice(0, MAX_ERROR_LENGTH), updatedAt, deliveryId),
+		),
+	);
+}
+
+export async function recordDeliveryAttempt(
+	db: D1Database,
+	deliveryId: string,
+	status: DeliveryStatus,
+	attempts: number,
+	attempt: DeliveryAttempt,
+): Promise<void> {
+	await db
+		.prepare(
+			`UPDATE webhook_deliveries SET
+				status = ?, attempts = ?, last_status_code = ?, last_error = ?, updated_at = ?
+			WHERE id = ?`,
+		)
+		.bind(
+			status,
+			attempts,
+			attempt.statusCode ?? null,
+			attempt.error ?? null,
+			new Date().toISOString(),
+			deliveryId,
+		)
+		.run();
+}
+
+// Makes attempt number `attempts` of a queued delivery (undefined webhook:
+// deleted since queueing) and logs it. Returns the seconds to wait before
+// retrying, or undefined once the delivery has succeeded or failed for good.
+export async function attemptDelivery(
+	db: D1Database,
+	webhook: FeedWebhook | undefined,
+	job: WebhookJob,
+	attempts: number,
+): Promise<number | undefined> {
+	if (!webhook) {
+		await recordDeliveryAttempt(db, job.deliveryId, "failed", attempts - 1, {
+			ok: false,
+			error: "Webhook was deleted",
+		});
+		return undefined;
+	}
+
+	const attempt = await deliverWebhook(webhook, job.payload);
+	if (attempt.ok) {
+		await recordDeliveryAttempt(
+			db,
+			job.deliveryId,
+			"succeeded",
+			attempts,
+			attempt,
+		);
+		return undefined;
+	}
+	if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+		await recordDeliveryAttempt(
+			db,
+			job.deliveryId,
+			"failed",
+			attempts,
+			attempt,
+		);
+		return undefined;
+	}
+	await recordDeliveryAttempt(db, job.deliveryId, "pending", attempts, attempt);
+	return retryDelaySeconds(attempts);
+}
+
+// Newest first
+export async function listDeliveries(
+	db: D1Database,
+	feedId: string,
+	webhookId: string,
+	limit: number,
+): Promise<WebhookDelivery[]> {
+	const { results } = await db
+		.prepare(
+			`SELECT id, webhook_id, event, email_id, status, attempts,
+				last_status_code, last_error, created_at, updated_at
+			FROM webhook_deliveries
+			WHERE feed_id = ? AND webhook_id = ?
+			ORDER BY created_at DESC, id DESC LIMIT ?`,
+		)
+		.bind(feedId, webhookId, limit)
+		.all<{
+			id: string;
+			webhook_id: string;
+			event: WebhookEvent;
+			email_id: string;
+			status: DeliveryStatus;
+			attempts: number;
+			last_status_code: number | null;
+			last_error: string | null;
+			created_at: string;
+			updated_at: string;
+		}>();
+
+	return results.map((row) => ({
+		id: row.id,
+		webhookId: row.webhook_id,
+		event: row.event,
+		emailId: row.email_id,
+		status: row.status,
+		attempts: row.attempts,
+		lastStatusCode: row.last_status_code ?? undefined,
+		lastError: row.last_error ?? undefined,
+		createdAt: row.created_at,
+		updatedAt: row.updated_at,
+	}));
+}
+
+export async function removeFeedDeliveries(
+	db: D1Database,
+	feedId: string,
+): Promise<void> {
+	await db
+		.prepare("DELETE FROM webhook_deliveries WHERE feed_id = ?")
+		.bind(feedId)
+		.run();
+}
+
+export async function pruneDeliveryLog(db: D1Database): Promise<number> {
+	const cutoff = new Date(
+		Date.now() - DELIVERY_LOG_DAYS * 24 * 60 * 60 * 1000,
+	).toISOString();
+	const result = await db
+		.prepare("DELETE FROM webhook_deliveries WHERE created_at < ?")
+		.bind(cutoff)
+		.run();
+	return result.meta.changes;
+}
@@ -0,0 +1,312 @@
+import { BASE_URL } from "./access.ts";
+import type { FeedFormat } from "./formats.ts";
+import { hmacHex } from "./signatures.ts";
+
+// Built-in WebSub hub (https://www.w3.org/TR/websub/). Feeds advertise
+// HUB_URL; topics are feed URLs (/feeds/{id}/{format}, plus ?token= for
+// private feeds). Subscription requests are answered with 202 and the
+// subscriber's intent is verified afterwards. Subscriptions live in D1 and
+// receive the rendered feed whenever a new email is published, through the
+// queue so failed deliveries are retried.
+
+export const HUB_URL = `${BASE_URL}/websub`;
+
+const DEFAULT_LEASE_SECONDS = 10 * 24 * 60 * 60;
+const MIN_LEASE_SECONDS = 60 * 60;
+const MAX_LEASE_SECONDS = 30 * 24 * 60 * 60;
+
+// The spec caps hub.secret at 200 bytes
+const MAX_SECRET_BYTES = 200;
+
+// Subscribers get this long to answer a verification or content request
+const CALLBACK_TIMEOUT_MS = 10_000;
+
+export type HubMode = "subscribe" | "unsubscribe";
+
+export interface FeedTopic {
+	feedId: string;
+	format: FeedFormat;
+	token: string | null;
+}
+
+export interface SubscriptionRequest {
+	mode: HubMode;
+	topic: string;
+	callback: string;
+	leaseSeconds: number;
+	secret?: string;
+}
+
+export interface WebSubSubscription {
+	topic: string;
+	callback: string;
+	feedId: string;
+	format: FeedFormat;
+	secret?: string;
+	expiresAt: string;
+}
+
+export type SubscriptionRequestResult =
+	| { status: "ok"; request: SubscriptionRequest; topic: FeedTopic }
+	| { status: "invalid"; error: string };
+
+// Topics are the self URLs our feeds advertise; a bare /feeds/{id} is RSS
+export function parseTopic(topic: string): FeedTopic | undefined {
+	let url: URL;
+	try {
+		url = new URL(topic);
+	} catch {
+		return undefined;
+	}
+
+	if (url.origin !== BASE_URL) {
+		return undefined;
+	}
+
+	const match = url.pathname.match(/^\/feeds\/([^/]+)(?:\/(rss|atom|json))?$/);
+	if (!match) {
+		return undefined;
+	}
+
+	return {
+		feedId: match[1],
+		format: (match[2] as FeedFormat | undefined) ?? "rss",
+		token: url.searchParams.get("token"),
+	};
+}
+
+function isHttpUrl(value: string): boolean {
+	try {
+		const url = new URL(value);
+		return url.protocol === "https:" || url.protocol === "http:";
+	} catch {
+		return false;
+	}
+}
+
+function clampLease(value: string | null): number {
+	const seconds = Number(value);
+	if (!value || !Number.isInteger(seconds) || seconds <= 0) {
+		return DEFAULT_LEASE_SECONDS;
+	}
+	return Math.min(Math.max(seconds, MIN_LEASE_SECONDS), MAX_LEASE_SECONDS);
+}
+
+// Validates the form parameters of a hub request. Whether the topic's feed
+// exists (and the token grants access) is checked by the caller.
+export function parseSubscriptionRequest(
+	form: FormData,
+): SubscriptionRequestResult {
+	const mode = form.get("hub.mode");
+	const topic = form.get("hub.topic");
+	const callback = form.get("hub.callback");
+	const secret = form.get("hub.secret");
+
+	if (mode !== "subscribe" && mode !== "unsubscribe") {
+		return {
+			status: "invalid",
+			error: "hub.mode must be subscribe or unsubscribe",
+		};
+	}
+
+	if (typeof callback !== "string" || !isHttpUrl(callback)) {
+		return { status: "invalid", error: "hub.callback must be an HTTP(S) URL" };
+	}
+
+	const feedTopic = typeof topic === "string" ? parseTopic(topic) : undefined;
+	if (typeof topic !== "string" || !feedTopic) {
+		return { status: "invalid", error: "hub.topic is not a feed on this hub" };
+	}
+
+	if (
+		secret !== null &&
+		(typeof secret !== "string" ||
+			!secret ||
+			new TextEncoder().encode(secret).byteLength > MAX_SECRET_BYTES)
+	) {
+		return {
+			status: "invalid",
+			error: `hub.secret must be 1 to ${MAX_SECRET_BYTES} bytes`,
+		};
+	}
+
+	return {
+		status: "ok",
+		request: {
+			mode,
+			topic,
+			callback,
+			leaseSeconds: clampLease(form.get("hub.lease_seconds") as string | null),
+			secret: secret ?? undefined,
+		},
+		topic: feedTopic,
+	};
+}
+
+// Asks the subscriber to confirm the request by echoing hub.challenge
+export async function verifyIntent(
+	request: SubscriptionRequest,
+): Promise<boolean> {
+	const challenge = crypto.randomUUID();
+	const url = new URL(request.callback);
+	url.searchParams.set("hub.mode", request.mode);
+	url.searchParams.set("hub.topic", request.topic);
+	url.searchParams.set("hub.challenge", challenge);
+	if (request.mode === "subscribe") {
+		url.searchParams.set("hub.lease_seconds", String(request.leaseSeconds));
+	}
+
+	try {
+		const response = await fetch(url, {
+			signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+		});
+		return response.ok && (await response.text()).trim() === challenge;
+	} catch (error) {
+		console.warn(`WebSub verification failed for ${request.callback}:`, error);
+		return false;
+	}
+}
+
+// Subscriptions
+
+export async function saveSubscription(
+	db: D1Database,
+	subscription: WebSubSubscription,
+): Promise<void> {
+	await db
+		.prepare(
+			`INSERT INTO websub_subscriptions
+				(topic, callback, feed_id, format, secret, expires_at, created_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?)
+			ON CONFLICT (topic, callback) DO UPDATE SET
+				secret = excluded.secret,
+				expires_at = excluded.expires_at`,
+		)
+		.bind(
+			subscription.topic,
+			subscription.callback,
+			subscription.feedId,
+			subscription.format,
+			subscription.secret ?? null,
+			subscription.expiresAt,
+			new Date().toISOString(),
+		)
+		.run();
+}
+
+export async function removeSubscription(
+	db: D1Database,
+	topic: string,
+	callback: string,
+): Promise<void> {
+	await db
+		.prepare(
+			"DELETE FROM websub_subscriptions WHERE topic = ? AND callback = ?",
+		)
+		.bind(topic, callback)
+		.run();
+}
+
+export async function removeFeedSubscriptions(
+	db: D1Database,
+	feedId: string,
+): Promise<void> {
+	await db
+		.prepare("DELETE FROM websub_subscriptions WHERE feed_id = ?")
+		.bind(feedId)
+		.run();
+}
+
+export async function removeExpiredSubscriptions(
+	db: D1Database,
+): Promise<number> {
+	const result = await db
+		.prepare("DELETE FROM websub_subscriptions WHERE expires_at <= ?")
+		.bind(new Date().toISOString())
+		.run();
+	return result.meta.changes;
+}
+
+interface SubscriptionRow {
+	topic: string;
+	callback: string;
+	feed_id: string;
+	format: FeedFormat;
+	secret: string | null;
+	expires_at: string;
+}
+
+function toSubscription(row: SubscriptionRow): WebSubSubscription {
+	return {
+		topic: row.topic,
+		callback: row.callback,
+		feedId: row.feed_id,
+		format: row.format,
+		secret: row.secret ?? undefined,
+		expiresAt: row.expires_at,
+	};
+}
+
+export async function listActiveSubscriptions(
+	db: D1Database,
+	feedId: string,
+): Promise<WebSubSubscription[]> {
+	const { results } = await db
+		.prepare(
+			`SELECT topic, callback, feed_id, format, secret, expires_at
+			FROM websub_subscriptions WHERE feed_id = ? AND expires_at > ?`,
+		)
+		.bind(feedId, new Date().toISOString())
+		.all<SubscriptionRow>();
+	return results.map(toSubscription);
+}
+
+// Null once the subscriber has unsubscribed or its lease has run out
+export async function getActiveSubscription(
+	db: D1Database,
+	topic: string,
+	callback: string,
+): Promise<WebSubSubscription | null> {
+	const row = await db
+		.prepare(
+			`SELECT topic, callback, feed_id, format, secret, expires_at
+			FROM websub_subscriptions
+			WHERE topic = ? AND callback = ? AND expires_at > ?`,
+		)
+		.bind(topic, callback, new Date().toISOString())
+		.first<SubscriptionRow>();
+	return row ? toSubscription(row) : null;
+}
+
+// Content distribution: POSTs the topic's current document. "gone" means the
+// subscriber answered 410 and the subscription should be dropped.
+export async function deliverContent(
+	subscription: WebSubSubscription,
+	body: string,
+	contentType: string,
+): Promise<"delivered" | "failed" | "gone"> {
+	const headers: Record<string, string> = {
+		"content-type": contentType,
+		link: `<${HUB_URL}>; rel="hub", <${subscription.topic}>; rel="self"`,
+	};
+	if (subscription.secret) {
+		headers["x-hub-signature"] =
+			`sha256=${await hmacHex(subscription.secret, body)}`;
+	}
+
+	try {
+		const response = await fetch(subscription.callback, {
+			method: "POST",
+			headers,
+			body,
+			signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+		});
+		if (response.status === 410) {
+			return "gone";
+		}
+		return response.ok ? "delivered" : "failed";
+	} catch (error) {
+		console.warn(`WebSub delivery failed for ${subscription.callback}:`, error);
+		return "failed";
+	}
+}
@@ -3,16 +3,134 @@ export interface User {
 	email: string;
 	passwordHash: string;
 	createdAt: string;
+	// Required as ?token= on aggregate feed URLs; issued on first use
+	aggregateToken?: string;
 }
 
 export interface Feed {
 	id: string;
 	userId: string;
 	name: string;
+	description?: string;
 	emailAddress: string;
+	// Vanity local part; emailAddress uses it when set
+	alias?: string;
+	// Whether {id}@unletter.app still delivers once an alias is set. Treated
+	// as true when unset.
+	idAddressEnabled?: boolean;
 	createdAt: string;
+	// Remove tracking pixels and click-tracking from rendered emails.
+	// Treated as enabled when unset.
+	stripTracking?: boolean;
+	// Unset, or neither limit set, keeps every email
+	retention?: RetentionPolicy;
+	// Evaluated in order before storage; the first matching rule wins
+	rules?: FeedRule[];
+	// Applied to mail that matches no rule. Treated as "allow" when unset.
+	defaultRuleAction?: DefaultRuleAction;
+	// Treated as "public" when unset
+	visibility?: FeedVisibility;
+	// Required as ?token= on the public URLs of private feeds
+	accessToken?: string;
+	// Emails per feed document and archive page. Treated as 50 when unset.
+	pageSize?: number;
+	// User-defined labels; each one has an aggregate feed
+	folders?: string[];
+	// Inbox mode: mail is passed on to an auto-created sub-feed per list,
+	// sender or platform instead of being stored here
+	inbox?: { split: InboxSplit };
+	// The inbox that created this feed
+	inboxId?: string;
+	// Follow confirmation links from known platforms without asking
+	autoConfirm?: boolean;
+	// Outbound notifications for new mail
+	webhooks?: FeedWebhook[];
 }
 
+export type FeedVisibility = "public" | "private";
+
+export type InboxSplit = "list" | "sender" | "platform";
+
+export type RuleAction = "allow" | "drop" | "quarantine" | "route";
+export type DefaultRuleAction = Exclude<RuleAction, "route">;
+
+export interface FeedRule {
+	id: string;
+	// Sender addresses ("news@example.com") or domains ("example.com"), which
+	// also match subdomains
+	senders?: string[];
+	// Case-insensitive regular expression tested against the subject
+	subjectPattern?: string;
+	action: RuleAction;
+	// Destination feed for "route"; must belong to the same user
+	targetFeedId?: string;
+}
+
+export interface RetentionPolicy {
+	// Keep only the newest N emails
+	maxItems?: number;
+	// Delete emails older than this many days
+	maxAgeDays?: number;
+}
+
+export type WebhookEvent = "email.received" | "email.quarantined";
+
+export interface FeedWebhook {
+	id: string;
+	url: string;
+	// Key for the x-webhook-signature HMAC
+	secret: string;
+	events: WebhookEvent[];
+	createdAt: string;
+}
+
+// Body POSTed to a webhook; `id` is the delivery id and stays the same
+// across retries
+export interface WebhookPayload {
+	id: string;
+	event: WebhookEvent;
+	createdAt: string;
+	feed: {
+		id: string;
+		name: string;
+		url: string;
+	};
+	email: {
+		id: string;
+		subject: string;
+		from: {
+			name: string;
+			email: string;
+		};
+		timestamp: string;
+		webViewLink?: string;
+		viewUrl: string;
+		attachments: EmailAttachment[];
+	};
+	// Set on email.quarantined when a rule (rather than the default) held it
+	ruleId?: string;
+}
+
+// Queue message for one delivery
+export interface WebhookJob {
+	kind: "webhook";
+	deliveryId: string;
+	feedId: string;
+	webhookId: string;
+	payload: WebhookPayload;
+}
+
+// Queue message for pushing a feed to one WebSub subscriber. The document and
+// secret are read when it's delivered, so retries send the current feed.
+export interface WebSubJob {
+	kind: "websub";
+	feedId: string;
+	topic: string;
+	callback: string;
+}
+
+export type QueueJob = WebhookJob | WebSubJob;
+
 export interface StoredEmail {
 	id: string;
 	feedId: string;
@@ -21,10 +139,74 @@ export interface StoredEmail {
 		name: string;
 		email: string;
 	};
+	// Inline bodies. Empty when the body lives in the blob store (bodyKey).
 	html: string;
 	text: string;
 	timestamp: string;
 	webViewLink?: string;
+	// Normalized Message-ID header, when the inbound source provided one
+	messageId?: string;
+	// R2 key of the compressed { html, text } body
+	bodyKey?: string;
+	attachments?: EmailAttachment[];
+	// Inbox route the email arrived through
+	routeKey?: string;
+	// Set on double opt-in requests, which are held out of the feed
+	confirmation?: { url: string; platform?: string };
+	newsletter?: NewsletterMetadata;
+}
+
+// Read from the email at ingest; see lib/platforms.ts
+export interface NewsletterMetadata {
+	// Sending platform name (substack, beehiiv, ...)
+	platform?: string;
+	// The issue's page on the publication's site
+	canonicalUrl?: string;
+	author?: string;
+	publication?: string;
+	logoUrl?: string;
+	heroImageUrl?: string;
+	// Hidden preview text shown by mail clients after the subject
+	preheader?: string;
+}
+
+export interface EmailAttachment {
+	id: string;
+	filename: string;
+	contentType: string;
+	size: number;
+	// Content-ID without angle brackets, referenced from the HTML as cid:
+	contentId?: string;
+	// Inline parts are rendered in the body; the rest become enclosures
+	inline: boolean;
+}
+
+export interface InboundAttachment {
+	filename: string;
+	contentType: string;
+	contentId?: string;
+	inline: boolean;
+	content: Uint8Array;
+}
+
+// Provider-independent representation of a received email, produced by the
+// inbound webhook and the Email Routing handler before storage
+export interface InboundMessage {
+	id: string;
+	recipient: string;
+	from: {
+		name: string;
+		email: string;
+	};
+	subject: string;
+	receivedAt: string;
+	html: string;
+	text: string;
+	// Lowercased header names; only present when the source forwards headers
+	headers: Record<string, string>;
+	attachments?: InboundAttachment[];
+	// The provider's own id for the message, which its retries repeat
+	providerId?: string;
 }
 
 export interface InboundWebhookPayload {
@@ -51,6 +233,18 @@ export interface InboundWebhookPayload {
 		parsedData: {
 			textBody: string;
 			htmlBody: string;
+			// Address headers come as objects with their text, repeated headers
+			// as arrays
+			headers?: Record<string, unknown>;
+			attachments?: Array<{
+				filename: string;
+				contentType: string;
+				size?: number;
+				contentId?: string;
+				contentDisposition?: string;
+				// Base64-encoded file contents
+				content?: string;
+			}>;
 		};
 	};
 }
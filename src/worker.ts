@@ -1,18 +1,231 @@
 import { Feed as RSSFeed } from "feed";
 import { nanoid } from "nanoid";
 import type { worker } from "../alchemy.run.ts";
+import {
+	feedCacheControl,
+	feedUrl,
+	generateAccessToken,
+	hasFeedAccess,
+	isFeedVisibility,
+	isPrivateFeed,
+} from "./lib/access.ts";
+import {
+	aggregateUrl,
+	listFolders,
+	MAX_FOLDERS_PER_FEED,
+	parseFolders,
+} from "./lib/aggregate.ts";
+import {
+	aliasAddress,
+	claimAlias,
+	EMAIL_DOMAIN,
+	lookupAlias,
+	releaseAlias,
+	releaseFeedAliases,
+	validateAlias,
+} from "./lib/aliases.ts";
+import {
+	ARCHIVE_ELEMENT,
+	ARCHIVE_MAX_AGE,
+	type ArchiveLinks,
+	type ArchiveRange,
+	archiveFeedLinks,
+	archiveNeighbours,
+	archivePath,
+	currentRange,
+	DEFAULT_FEED_PAGE_SIZE,
+	feedPageSize,
+	isFeedPageSize,
+	MAX_FEED_PAGE_SIZE,
+	newestArchive,
+	parseArchiveRange,
+} from "./lib/archive.ts";
 import {
 	createToken,
 	hashPassword,
+	timingSafeEqual,
 	verifyPassword,
 	verifyToken,
 } from "./lib/auth.ts";
-import { extractWebViewLink } from "./lib/patterns.ts";
+import {
+	contentDisposition,
+	deleteEmailBlobs,
+	type EmailBody,
+	getAttachment,
+	getBody,
+	putAttachments,
+	putBody,
+} from "./lib/blobs.ts";
+import {
+	addPendingConfirmation,
+	canAutoConfirm,
+	clearFeedConfirmations,
+	confirmSubscription,
+	getPendingConfirmation,
+	listPendingConfirmations,
+	moveFeedConfirmations,
+	removePendingConfirmation,
+} from "./lib/confirmations.ts";
+import {
+	findDuplicate,
+	listDuplicates,
+	normalizeMessageId,
+	recordDuplicate,
+	rememberMessage,
+} from "./lib/dedupe.ts";
+import {
+	computeEtag,
+	getAggregateRenderedAt,
+	getRenderedAggregate,
+	getRenderedAt,
+	getRenderedFeed,
+	invalidateAggregates,
+	invalidateRenderedFeed,
+	isNotModified,
+	putRenderedAggregate,
+	putRenderedFeed,
+	type RenderedFeed,
+} from "./lib/feedcache.ts";
+import {
+	addFeedLinks,
+	FEED_CONTENT_TYPES,
+	type FeedFormat,
+	JSON_FEED_VERSION,
+	type JsonFeed,
+	negotiateFeedFormat,
+} from "./lib/formats.ts";
+import {
+	ALLOWED_IMAGE_TYPES,
+	imageTypeFromUrl,
+	MAX_IMAGE_BYTES,
+	readLimitedBody,
+	signImageUrl,
+	verifyImageUrl,
+} from "./lib/images.ts";
+import {
+	claimInboxRoute,
+	findInboxRoute,
+	inboxRoute,
+	isInboxSplit,
+	listFeedRoutes,
+	listInboxRoutes,
+	MAX_MOVED_EMAILS,
+	MAX_SPLIT_ROUTES,
+	moveInboxRoutes,
+	removeFeedInboxRoutes,
+} from "./lib/inbox.ts";
+import {
+	addFeedEmail,
+	addQuarantinedEmail,
+	addUserFeed,
+	clampPageSize,
+	clearQuarantinedEmails,
+	countFeedEmails,
+	getEmails,
+	getFeedEmail,
+	getFeedSequence,
+	listAllFeedEmailIds,
+	listFeedEmailRange,
+	listFeedEmails,
+	listNewestFeedEmails,
+	listQuarantinedEmails,
+	listUserFeedIds,
+	MAX_PAGE_SIZE,
+	migrateLegacyFeedIndex,
+	migrateLegacyIndexes,
+	migrateLegacyUserIndex,
+	moveFeedEmails,
+	moveQuarantinedEmails,
+	removeFeedEmail,
+	removeFeedEmails,
+	removeQuarantinedEmail,
+	removeUserFeed,
+	setFeedEmailHidden,
+} from "./lib/indexes.ts";
+import { parseMail } from "./lib/mime.ts";
+import {
+	buildOpml,
+	OPML_CONTENT_TYPE,
+	type OpmlOutline,
+	parseOpmlOutlines,
+} from "./lib/opml.ts";
+import {
+	cleanTrackingUrl,
+	detectConfirmation,
+	extractWebViewLink,
+} from "./lib/patterns.ts";
+import { extractNewsletterMetadata } from "./lib/platforms.ts";
+import { INBOUND_PROVIDERS } from "./lib/providers.ts";
+import {
+	parseRetentionPolicy,
+	pruneExpiredEmails,
+	removeFeedRetention,
+	setFeedRetention,
+} from "./lib/retention.ts";
+import {
+	evaluateRules,
+	isDefaultRuleAction,
+	MAX_RULES_PER_FEED,
+	parseFeedRule,
+	type RuleDecision,
+} from "./lib/rules.ts";
+import { sanitizeHtml, WEB_VIEW_CSP } from "./lib/sanitize.ts";
+import {
+	listVerificationFailures,
+	pruneVerificationFailures,
+	recordVerificationFailure,
+} from "./lib/signatures.ts";
+import {
+	listUnsubscribeLinks,
+	MAX_UNSUBSCRIBE_SENDERS,
+	markUnsubscribed,
+	moveUnsubscribeLinks,
+	pageUnsubscribeLinks,
+	parseListUnsubscribe,
+	parseUnsubscribeRequest,
+	removeFeedUnsubscribeLinks,
+	saveUnsubscribeLink,
+	type UnsubscribeLink,
+	type UnsubscribeResult,
+	unsubscribeSender,
+} from "./lib/unsubscribe.ts";
+import {
+	attemptDelivery,
+	createDeliveries,
+	failDeliveries,
+	listDeliveries,
+	MAX_DELIVERY_ATTEMPTS,
+	MAX_WEBHOOKS_PER_FEED,
+	parseFeedWebhook,
+	pruneDeliveryLog,
+	removeFeedDeliveries,
+	retryDelaySeconds,
+} from "./lib/webhooks.ts";
+import {
+	deliverContent,
+	getActiveSubscription,
+	HUB_URL,
+	listActiveSubscriptions,
+	parseSubscriptionRequest,
+	parseTopic,
+	removeExpiredSubscriptions,
+	removeFeedSubscriptions,
+	removeSubscription,
+	saveSubscription,
+	verifyIntent,
+} from "./lib/websub.ts";
 import type {
+	EmailAttachment,
 	Feed,
-	InboundWebhookPayload,
+	FeedRule,
+	FeedWebhook,
+	InboundMessage,
+	QueueJob,
 	StoredEmail,
 	User,
+	WebhookEvent,
+	WebhookJob,
+	WebSubJob,
 } from "./types.ts";
 
 interface WaitlistEntry {
@@ -23,7 +236,11 @@ interface WaitlistEntry {
 }
 
 export default {
-	async fetch(request: Request, env: typeof worker.Env): Promise<Response> {
+	async fetch(
+		request: Request,
+		env: typeof worker.Env,
+		ctx: ExecutionContext,
+	): Promise<Response> {
 		const url = new URL(request.url);
 
 		// Handle CORS preflight
@@ -31,7 +248,8 @@ export default {
 			return new Response(null, {
 				headers: {
 					"access-control-allow-origin": "*",
-					"access-control-allow-methods": "GET, POST, DELETE, OPTIONS",
+					"access-control-allow-methods":
+						"GET, POST, PUT, PATCH, DELETE, OPTIONS",
 					"access-control-allow-headers": "content-type, authorization",
 				},
 			});
@@ -55,28 +273,268 @@ export default {
 			return handleListFeeds(request, env);
 		}
 
-		if (
-			url.pathname.startsWith("/api/feeds/") &&
-			request.method === "DELETE"
-		) {
-			const feedId = url.pathname.split("/api/feeds/")[1];
-			return handleDeleteFeed(request, env, feedId);
+		if (url.pathname === "/api/feeds.opml" && request.method === "GET") {
+			return handleExportOpml(request, env);
 		}
 
-		// Webhook route
-		if (
-			url.pathname === "/api/webhook/inbound" &&
-			request.method === "POST"
-		) {
-			return handleInboundWebhook(request, env);
+		if (url.pathname === "/api/feeds.opml" && request.method === "POST") {
+			return handleImportOpml(request, env);
+		}
+
+		if (url.pathname === "/api/confirmations" && request.method === "GET") {
+			return handleListConfirmations(request, env);
+		}
+
+		const confirmMatch = url.pathname.match(
+			/^\/api\/confirmations\/([^/]+)\/confirm$/,
+		);
+		if (confirmMatch && request.method === "POST") {
+			return handleConfirmSubscription(request, env, confirmMatch[1]);
+		}
+
+		const releaseConfirmationMatch = url.pathname.match(
+			/^\/api\/confirmations\/([^/]+)\/release$/,
+		);
+		if (releaseConfirmationMatch && request.method === "POST") {
+			return handleReleaseConfirmation(
+				request,
+				env,
+				releaseConfirmationMatch[1],
+			);
+		}
+
+		const confirmationMatch = url.pathname.match(
+			/^\/api\/confirmations\/([^/]+)$/,
+		);
+		if (confirmationMatch && request.method === "DELETE") {
+			return handleDismissConfirmation(request, env, confirmationMatch[1]);
+		}
+
+		if (url.pathname === "/api/aggregates" && request.method === "GET") {
+			return handleGetAggregates(request, env);
+		}
+
+		if (url.pathname === "/api/aggregates/token" && request.method === "POST") {
+			return handleRotateAggregateToken(request, env);
+		}
+
+		const duplicatesMatch = url.pathname.match(
+			/^\/api\/feeds\/([^/]+)\/duplicates$/,
+		);
+		if (duplicatesMatch && request.method === "GET") {
+			return handleListDuplicates(request, env, duplicatesMatch[1]);
+		}
+
+		const visibilityMatch = url.pathname.match(
+			/^\/api\/feeds\/([^/]+)\/visibility$/,
+		);
+		if (visibilityMatch && request.method === "PUT") {
+			return handleSetVisibility(request, env, visibilityMatch[1]);
+		}
+
+		const tokenMatch = url.pathname.match(/^\/api\/feeds\/([^/]+)\/token$/);
+		if (tokenMatch && request.method === "POST") {
+			return handleRotateToken(request, env, tokenMatch[1]);
+		}
+
+		const emailsMatch = url.pathname.match(/^\/api\/feeds\/([^/]+)\/emails$/);
+		if (emailsMatch && request.method === "GET") {
+			return handleListEmails(request, env, emailsMatch[1]);
+		}
+
+		const emailMatch = url.pathname.match(
+			/^\/api\/feeds\/([^/]+)\/emails\/([^/]+)$/,
+		);
+		if (emailMatch && request.method === "GET") {
+			return handleGetEmail(request, env, emailMatch[1], emailMatch[2]);
+		}
+		if (emailMatch && request.method === "PATCH") {
+			return handleUpdateEmail(request, env, emailMatch[1], emailMatch[2]);
+		}
+		if (emailMatch && request.method === "DELETE") {
+			return handleDeleteEmail(request, env, emailMatch[1], emailMatch[2]);
+		}
+
+		const rulesMatch = url.pathname.match(/^\/api\/feeds\/([^/]+)\/rules$/);
+		if (rulesMatch && request.method === "GET") {
+			return handleListRules(request, env, rulesMatch[1]);
+		}
+		if (rulesMatch && request.method === "PUT") {
+			return handleReplaceRules(request, env, rulesMatch[1]);
+		}
+		if (rulesMatch && request.method === "POST") {
+			return handleCreateRule(request, env, rulesMatch[1]);
+		}
+
+		const ruleMatch = url.pathname.match(
+			/^\/api\/feeds\/([^/]+)\/rules\/([^/]+)$/,
+		);
+		if (ruleMatch && request.method === "PUT") {
+			return handleUpdateRule(request, env, ruleMatch[1], ruleMatch[2]);
+		}
+		if (ruleMatch && request.method === "DELETE") {
+			return handleDeleteRule(request, env, ruleMatch[1], ruleMatch[2]);
+		}
+
+		const webhooksMatch = url.pathname.match(
+			/^\/api\/feeds\/([^/]+)\/webhooks$/,
+		);
+		if (webhooksMatch && request.method === "GET") {
+			return handleListWebhooks(request, env, webhooksMatch[1]);
+		}
+		if (webhooksMatch && request.method === "POST") {
+			return handleCreateWebhook(request, env, webhooksMatch[1]);
+		}
+
+		const webhookIdMatch = url.pathname.match(
+			/^\/api\/feeds\/([^/]+)\/webhooks\/([^/]+)$/,
+		);
+		if (webhookIdMatch && request.method === "DELETE") {
+			return handleDeleteWebhook(
+				request,
+				env,
+				webhookIdMatch[1],
+				webhookIdMatch[2],
+			);
+		}
+
+		const deliveriesMatch = url.pathname.match(
+			/^\/api\/feeds\/([^/]+)\/webhooks\/([^/]+)\/deliveries$/,
+		);
+		if (deliveriesMatch && request.method === "GET") {
+			return handleListDeliveries(
+				request,
+				env,
+				deliveriesMatch[1],
+				deliveriesMatch[2],
+			);
+		}
+
+		const quarantineMatch = url.pathname.match(
+			/^\/api\/feeds\/([^/]+)\/quarantine$/,
+		);
+		if (quarantineMatch && request.method === "GET") {
+			return handleListQuarantine(request, env, quarantineMatch[1]);
+		}
+
+		const releaseMatch = url.pathname.match(
+			/^\/api\/feeds\/([^/]+)\/quarantine\/([^/]+)\/release$/,
+		);
+		if (releaseMatch && request.method === "POST") {
+			return handleReleaseQuarantined(
+				request,
+				env,
+				releaseMatch[1],
+				releaseMatch[2],
+			);
+		}
+
+		const quarantinedMatch = url.pathname.match(
+			/^\/api\/feeds\/([^/]+)\/quarantine\/([^/]+)$/,
+		);
+		if (quarantinedMatch && request.method === "DELETE") {
+			return handleDeleteQuarantined(
+				request,
+				env,
+				quarantinedMatch[1],
+				quarantinedMatch[2],
+			);
+		}
+
+		const inboxMatch = url.pathname.match(/^\/api\/feeds\/([^/]+)\/inbox$/);
+		if (inboxMatch && request.method === "GET") {
+			return handleListInboxRoutes(request, env, inboxMatch[1]);
+		}
+
+		const mergeMatch = url.pathname.match(/^\/api\/feeds\/([^/]+)\/merge$/);
+		if (mergeMatch && request.method === "POST") {
+			return handleMergeFeeds(request, env, mergeMatch[1]);
+		}
+
+		const splitMatch = url.pathname.match(/^\/api\/feeds\/([^/]+)\/split$/);
+		if (splitMatch && request.method === "POST") {
+			return handleSplitFeed(request, env, splitMatch[1]);
+		}
+
+		const unsubscribeMatch = url.pathname.match(
+			/^\/api\/feeds\/([^/]+)\/unsubscribe$/,
+		);
+		if (unsubscribeMatch && request.method === "GET") {
+			return handleListUnsubscribeLinks(request, env, unsubscribeMatch[1]);
+		}
+		if (unsubscribeMatch && request.method === "POST") {
+			return handleUnsubscribe(request, env, unsubscribeMatch[1]);
+		}
+
+		const feedIdMatch = url.pathname.match(/^\/api\/feeds\/([^/]+)$/);
+		if (feedIdMatch && request.method === "PATCH") {
+			return handleUpdateFeed(request, env, feedIdMatch[1]);
+		}
+		if (feedIdMatch && request.method === "DELETE") {
+			return handleDeleteFeed(request, env, feedIdMatch[1]);
+		}
+
+		// Webhook routes, one per inbound provider
+		// (/api/webhook/inbound is inbound.new)
+		const webhookMatch = url.pathname.match(/^\/api\/webhook\/([^/]+)$/);
+		if (webhookMatch && request.method === "POST") {
+			return handleInboundWebhook(request, env, ctx, webhookMatch[1]);
+		}
+
+		// WebSub hub
+		if (url.pathname === "/websub" && request.method === "POST") {
+			return handleWebSubRequest(request, env, ctx);
 		}
 
 		// Public feed routes
-		const feedMatch = url.pathname.match(/^\/feeds\/([^/]+)(\/rss|\/atom)?$/);
+		const feedMatch = url.pathname.match(
+			/^\/feeds\/([^/]+)(?:\/(rss|atom|json))?$/,
+		);
 		if (feedMatch && request.method === "GET") {
 			const feedId = feedMatch[1];
-			const format = feedMatch[2] === "/atom" ? "atom" : "rss";
-			return handleGetFeed(env, feedId, format);
+			// Without an explicit suffix the Accept header decides
+			const format = feedMatch[2]
+				? (feedMatch[2] as FeedFormat)
+				: negotiateFeedFormat(request.headers.get("accept"));
+			const response = await handleGetFeed(request, env, feedId, format);
+			if (!feedMatch[2]) {
+				response.headers.set("vary", "accept");
+			}
+			return response;
+		}
+
+		// Aggregate feeds (all feeds, or one folder)
+		const aggregateMatch = url.pathname.match(
+			/^\/aggregate\/([^/]+)(?:\/folders\/([^/]+))?(?:\/(rss|atom|json))?$/,
+		);
+		if (aggregateMatch && request.method === "GET") {
+			const [, userId, folder, suffix] = aggregateMatch;
+			const format = suffix
+				? (suffix as FeedFormat)
+				: negotiateFeedFormat(request.headers.get("accept"));
+			const response = await handleGetAggregate(
+				request,
+				env,
+				userId,
+				folder,
+				format,
+			);
+			if (!suffix) {
+				response.headers.set("vary", "accept");
+			}
+			return response;
+		}
+
+		// Archive pages (RFC 5005)
+		const archiveMatch = url.pathname.match(
+			/^\/feeds\/([^/]+)\/archive\/(\d+)-(\d+)\/(rss|atom|json)$/,
+		);
+		if (archiveMatch && request.method === "GET") {
+			const [, feedId, from, to, format] = archiveMatch;
+			return handleGetFeed(request, env, feedId, format as FeedFormat, {
+				from,
+				to,
+			});
 		}
 
 		// Web view route
@@ -86,7 +544,27 @@ export default {
 		if (viewMatch && request.method === "GET") {
 			const feedId = viewMatch[1];
 			const emailId = viewMatch[2];
-			return handleWebView(env, feedId, emailId);
+			return handleWebView(env, feedId, emailId, url.searchParams.get("token"));
+		}
+
+		// Attachment route
+		const attachmentMatch = url.pathname.match(
+			/^\/feeds\/([^/]+)\/attachments\/([^/]+)\/([^/]+)$/,
+		);
+		if (attachmentMatch && request.method === "GET") {
+			return handleAttachment(
+				env,
+				attachmentMatch[1],
+				attachmentMatch[2],
+				attachmentMatch[3],
+				url.searchParams.get("token"),
+			);
+		}
+
+		// Image proxy route
+		const imageMatch = url.pathname.match(/^\/img\/([^/]+)\/([^/]+)$/);
+		if (imageMatch && request.method === "GET") {
+			return handleImageProxy(request, env, ctx, imageMatch[1], imageMatch[2]);
 		}
 
 		// Waitlist routes
@@ -98,8 +576,44 @@ export default {
 			return handleAdminList(request, env);
 		}
 
+		if (
+			url.pathname === "/admin/migrate-indexes" &&
+			request.method === "POST"
+		) {
+			return handleAdminMigrateIndexes(request, env);
+		}
+
+		if (
+			url.pathname === "/admin/webhook-failures" &&
+			request.method === "GET"
+		) {
+			return handleAdminWebhookFailures(request, env);
+		}
+
 		return env.ASSETS.fetch(request);
 	},
+
+	async email(
+		message: ForwardableEmailMessage,
+		env: typeof worker.Env,
+		ctx: ExecutionContext,
+	): Promise<void> {
+		return handleIncomingEmail(message, env, ctx);
+	},
+
+	async scheduled(
+		_controller: ScheduledController,
+		env: typeof worker.Env,
+	): Promise<void> {
+		return handleScheduled(env);
+	},
+
+	async queue(
+		batch: MessageBatch<QueueJob>,
+		env: typeof worker.Env,
+	): Promise<void> {
+		return handleQueue(batch, env);
+	},
 };
 
 async function handleWaitlistSignup(
@@ -136,14 +650,18 @@ async function handleWaitlistSignup(
 	}
 }
 
+function isAdminRequest(request: Request, env: typeof worker.Env): boolean {
+	const authHeader = request.headers.get("authorization");
+	const expectedKey = env.ADMIN_API_KEY || "your-secret-key-here";
+
+	return authHeader === `Bearer ${expectedKey}`;
+}
+
 async function handleAdminList(
 	request: Request,
 	env: typeof worker.Env,
 ): Promise<Response> {
-	const authHeader = request.headers.get("authorization");
-	const expectedKey = env.ADMIN_API_KEY || "your-secret-key-here";
-
-	if (authHeader !== `Bearer ${expectedKey}`) {
+	if (!isAdminRequest(request, env)) {
 		return jsonResponse({ error: "Unauthorized" }, 401);
 	}
 
@@ -173,6 +691,63 @@ async function handleAdminList(
 	}
 }
 
+// Per-minute failure counts returned by the admin API
+const MAX_LISTED_FAILURES = 500;
+
+async function handleAdminWebhookFailures(
+	request: Request,
+	env: typeof worker.Env,
+): Promise<Response> {
+	if (!isAdminRequest(request, env)) {
+		return jsonResponse({ error: "Unauthorized" }, 401);
+	}
+
+	try {
+		const failures = await listVerificationFailures(
+			env.DB,
+			MAX_LISTED_FAILURES,
+		);
+
+		return jsonResponse({
+			total: failures.length,
+			failures,
+		});
+	} catch (error) {
+		console.error("Webhook failures list error:", error);
+		return jsonResponse({ error: "Failed to fetch webhook failures" }, 500);
+	}
+}
+
+// Moves one page of legacy KV feed/email indexes into D1 per call
+async function handleAdminMigrateIndexes(
+	request: Request,
+	env: typeof worker.Env,
+): Promise<Response> {
+	if (!isAdminRequest(request, env)) {
+		return jsonResponse({ error: "Unauthorized" }, 401);
+	}
+
+	try {
+		const cursor = new URL(request.url).searchParams.get("cursor") ?? undefined;
+		const result = await migrateLegacyIndexes(env.DATA, env.DB, cursor);
+
+		return jsonResponse({ ...result, done: !result.cursor });
+	} catch (error) {
+		console.error("Index migration error:", error);
+		return jsonResponse({ error: "Failed to migrate indexes" }, 500);
+	}
+}
+
+function formatBytes(bytes: number): string {
+	if (bytes < 1024) {
+		return `${bytes} B`;
+	}
+	if (bytes < 1024 * 1024) {
+		return `${Math.round(bytes / 1024)} KB`;
+	}
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 function isValidEmail(email: string): boolean {
 	const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 	return emailRegex.test(email);
@@ -233,7 +808,6 @@ async function handleSignup(
 		// Store user and email index
 		await env.DATA.put(`user:${userId}`, JSON.stringify(user));
 		await env.DATA.put(`user:email:${email}`, userId);
-		await env.DATA.put(`user:${userId}:feeds`, JSON.stringify([]));
 
 		// Create JWT
 		const token = await createToken(userId, env.JWT_SECRET);
@@ -327,6 +901,26 @@ async function authenticateRequest(
 	return { userId: result.userId };
 }
 
+// Loads a feed and checks that the authenticated user owns it
+
+async function getOwnedFeed(
+	env: typeof worker.Env,
+	feedId: string,
+	userId: string,
+): Promise<Feed | Response> {
+	const feedData = await env.DATA.get(`feed:${feedId}`);
+	if (!feedData) {
+		return jsonResponse({ error: "Feed not found" }, 404);
+	}
+
+	const feed: Feed = JSON.parse(feedData);
+	if (feed.userId !== userId) {
+		return jsonResponse({ error: "Not authorized" }, 403);
+	}
+
+	return feed;
+}
+
 // Feed handlers
 
 async function handleCreateFeed(
@@ -337,292 +931,3155 @@ async function handleCreateFeed(
 	if (auth instanceof Response) return auth;
 
 	try {
-		const body = (await request.json()) as { name: string };
-		const name = body.name?.trim() ?? "";
+		const body = (await request.json()) as FeedSettingsInput & {
+			alias?: unknown;
+		};
 
-		if (!name) {
-			return jsonResponse({ error: "Feed name is required" }, 400);
+		const parsed = parseFeedSettings(body);
+		if (parsed.status === "invalid") {
+			return jsonResponse({ error: parsed.error }, 400);
 		}
+		const { settings } = parsed;
 
-		const feedId = nanoid(10);
-		const emailAddress = `${feedId}@unletter.app`;
+		if (!settings.name) {
+			return jsonResponse({ error: "Feed name is required" }, 400);
+		}
 
-		const feed: Feed = {
-			id: feedId,
-			userId: auth.userId,
-			name,
-			emailAddress,
-			createdAt: new Date().toISOString(),
-		};
+		let feed = buildFeed(auth.userId, settings.name, settings);
 
-		// Store feed
-		await env.DATA.put(`feed:${feedId}`, JSON.stringify(feed));
-		await env.DATA.put(`feed:${feedId}:emails`, JSON.stringify([]));
+		if (body.alias !== undefined && body.alias !== null) {
+			const aliased = await changeFeedAlias(env, feed, body.alias, true);
+			if (aliased instanceof Response) return aliased;
+			feed = aliased;
+		}
 
-		// Update user's feed list
-		const userFeedsData = await env.DATA.get(`user:${auth.userId}:feeds`);
-		const userFeeds: string[] = userFeedsData
-			? JSON.parse(userFeedsData)
-			: [];
-		userFeeds.push(feedId);
-		await env.DATA.put(`user:${auth.userId}:feeds`, JSON.stringify(userFeeds));
+		await storeNewFeed(env, feed);
 
-		return jsonResponse(
-			{
-				feed: {
-					id: feed.id,
-					name: feed.name,
-					emailAddress: feed.emailAddress,
-					createdAt: feed.createdAt,
-				},
-			},
-			201,
-		);
+		return jsonResponse({ feed: publicFeed(feed) }, 201);
 	} catch (error) {
 		console.error("Create feed error:", error);
 		return jsonResponse({ error: "Failed to create feed" }, 500);
 	}
 }
 
-async function handleListFeeds(
-	request: Request,
-	env: typeof worker.Env,
-): Promise<Response> {
-	const auth = await authenticateRequest(request, env);
-	if (auth instanceof Response) return auth;
+// New feed record with defaults applied; nothing is stored yet
+function buildFeed(
+	userId: string,
+	name: string,
+	settings: Partial<Feed>,
+): Feed {
+	const feedId = nanoid(10);
+	const visibility = settings.visibility ?? "public";
 
-	try {
-		const userFeedsData = await env.DATA.get(`user:${auth.userId}:feeds`);
-		const feedIds: string[] = userFeedsData ? JSON.parse(userFeedsData) : [];
+	return {
+		id: feedId,
+		userId,
+		name,
+		description: settings.description,
+		emailAddress: `${feedId}@${EMAIL_DOMAIN}`,
+		createdAt: new Date().toISOString(),
+		stripTracking: settings.stripTracking ?? true,
+		retention: settings.retention ?? {},
+		visibility,
+		accessToken: visibility === "private" ? generateAccessToken() : undefined,
+		pageSize: settings.pageSize,
+		folders: settings.folders,
+		inbox: settings.inbox,
+		autoConfirm: settings.autoConfirm,
+	};
+}
 
-		const feeds: Array<Omit<Feed, "userId">> = [];
+async function storeNewFeed(env: typeof worker.Env, feed: Feed): Promise<void> {
+	// Store feed
+	await env.DATA.put(`feed:${feed.id}`, JSON.stringify(feed));
+	await setFeedRetention(env.DB, feed.id, feed.retention);
 
-		for (const feedId of feedIds) {
-			const feedData = await env.DATA.get(`feed:${feedId}`);
-			if (feedData) {
-				const feed: Feed = JSON.parse(feedData);
-				feeds.push({
-					id: feed.id,
-					name: feed.name,
-					emailAddress: feed.emailAddress,
-					createdAt: feed.createdAt,
-				});
-			}
-		}
+	// Update user's feed list
+	await migrateLegacyUserIndex(env.DATA, env.DB, feed.userId);
+	await addUserFeed(env.DB, feed.userId, feed.id, feed.createdAt);
+	await invalidateAggregates(env.DATA, feed.userId);
+}
 
-		return jsonResponse({ feeds });
-	} catch (error) {
-		console.error("List feeds error:", error);
-		return jsonResponse({ error: "Failed to list feeds" }, 500);
-	}
+const MAX_DESCRIPTION_LENGTH = 1000;
+
+interface FeedSettingsInput {
+	name?: unknown;
+	description?: unknown;
+	stripTracking?: unknown;
+	retention?: unknown;
+	visibility?: unknown;
+	pageSize?: unknown;
+	folders?: unknown;
+	inbox?: unknown;
+	autoConfirm?: unknown;
 }
 
-async function handleDeleteFeed(
-	request: Request,
-	env: typeof worker.Env,
-	feedId: string,
-): Promise<Response> {
-	const auth = await authenticateRequest(request, env);
-	if (auth instanceof Response) return auth;
+type FeedSettingsResult =
+	| { status: "ok"; settings: Partial<Feed> }
+	| { status: "invalid"; error: string };
 
-	try {
-		// Get feed and verify ownership
-		const feedData = await env.DATA.get(`feed:${feedId}`);
-		if (!feedData) {
-			return jsonResponse({ error: "Feed not found" }, 404);
+// Validates the editable settings present in a create or update request
+function parseFeedSettings(body: FeedSettingsInput): FeedSettingsResult {
+	const settings: Partial<Feed> = {};
+
+	if (body.name !== undefined) {
+		const name = typeof body.name === "string" ? body.name.trim() : "";
+		if (!name) {
+			return { status: "invalid", error: "Feed name is required" };
 		}
+		settings.name = name;
+	}
 
-		const feed: Feed = JSON.parse(feedData);
-		if (feed.userId !== auth.userId) {
-			return jsonResponse({ error: "Not authorized" }, 403);
+	if (body.description !== undefined) {
+		if (
+			body.description !== null &&
+			(typeof body.description !== "string" ||
+				body.description.length > MAX_DESCRIPTION_LENGTH)
+		) {
+			return {
+				status: "invalid",
+				error: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters`,
+			};
 		}
+		settings.description = body.description?.trim() || undefined;
+	}
 
-		// Get all emails for this feed and delete them
-		const emailListData = await env.DATA.get(`feed:${feedId}:emails`);
-		const emailIds: string[] = emailListData ? JSON.parse(emailListData) : [];
+	if (body.stripTracking !== undefined) {
+		if (typeof body.stripTracking !== "boolean") {
+			return { status: "invalid", error: "stripTracking must be a boolean" };
+		}
+		settings.stripTracking = body.stripTracking;
+	}
 
-		for (const emailId of emailIds) {
-			await env.DATA.delete(`email:${emailId}`);
+	if (body.retention !== undefined) {
+		const retention = parseRetentionPolicy(body.retention);
+		if (!retention) {
+			return { status: "invalid", error: "Invalid retention policy" };
 		}
+		settings.retention = retention;
+	}
 
-		// Delete feed data
-		await env.DATA.delete(`feed:${feedId}`);
-		await env.DATA.delete(`feed:${feedId}:emails`);
+	if (body.visibility !== undefined) {
+		if (!isFeedVisibility(body.visibility)) {
+			return {
+				status: "invalid",
+				error: "visibility must be public or private",
+			};
+		}
+		settings.visibility = body.visibility;
+	}
 
-		// Remove from user's feed list
-		const userFeedsData = await env.DATA.get(`user:${auth.userId}:feeds`);
-		const userFeeds: string[] = userFeedsData
-			? JSON.parse(userFeedsData)
-			: [];
-		const updatedFeeds = userFeeds.filter((id) => id !== feedId);
-		await env.DATA.put(
-			`user:${auth.userId}:feeds`,
-			JSON.stringify(updatedFeeds),
-		);
+	if (body.pageSize !== undefined) {
+		if (body.pageSize !== null && !isFeedPageSize(body.pageSize)) {
+			return {
+				status: "invalid",
+				error: `pageSize must be an integer from 1 to ${MAX_FEED_PAGE_SIZE}`,
+			};
+		}
+		settings.pageSize = body.pageSize ?? undefined;
+	}
 
-		return jsonResponse({ message: "Feed deleted" });
-	} catch (error) {
-		console.error("Delete feed error:", error);
-		return jsonResponse({ error: "Failed to delete feed" }, 500);
+	if (body.folders !== undefined) {
+		const folders = parseFolders(body.folders);
+		if (!folders) {
+			return {
+				status: "invalid",
+				error: `folders must be a list of up to ${MAX_FOLDERS_PER_FEED} names without "/"`,
+			};
+		}
+		settings.folders = folders;
 	}
-}
 
-// Webhook handler
+	if (body.inbox !== undefined) {
+		const split = (body.inbox as { split?: unknown } | null)?.split;
+		if (body.inbox !== null && !isInboxSplit(split)) {
+			return {
+				status: "invalid",
+				error:
+					'inbox must be null or { split: "list" | "sender" | "platform" }',
+			};
+		}
+		settings.inbox = isInboxSplit(split) ? { split } : undefined;
+	}
 
-async function handleInboundWebhook(
-	request: Request,
+	if (body.autoConfirm !== undefined) {
+		if (typeof body.autoConfirm !== "boolean") {
+			return { status: "invalid", error: "autoConfirm must be a boolean" };
+		}
+		settings.autoConfirm = body.autoConfirm;
+	}
+
+	return { status: "ok", settings };
+}
+
+// Points a feed at a new alias, or back at its id address when alias is
+// null. The previous address keeps delivering unless keepOldAddress is false.
+async function changeFeedAlias(
+	env: typeof worker.Env,
+	feed: Feed,
+	value: unknown,
+	keepOldAddress: boolean,
+): Promise<Feed | Response> {
+	let alias: string | undefined;
+	if (value !== null) {
+		const validation = validateAlias(value);
+		if (validation.status === "invalid") {
+			return jsonResponse({ error: validation.error }, 400);
+		}
+		alias = validation.alias;
+	}
+
+	if (alias === feed.alias) {
+		return feed;
+	}
+
+	if (alias) {
+		// Aliases share the local-part namespace with feed ids
+		const collides = await env.DATA.get(`feed:${alias}`);
+		if (collides || !(await claimAlias(env.DB, alias, feed.id))) {
+			return jsonResponse({ error: "That alias is already taken" }, 409);
+		}
+	}
+
+	if (!keepOldAddress && feed.alias) {
+		await releaseAlias(env.DB, feed.alias, feed.id);
+	}
+
+	// The id address is only switched off when it's the one being replaced,
+	// and it comes back whenever the alias is removed
+	let idAddressEnabled = feed.idAddressEnabled;
+	if (!alias) {
+		idAddressEnabled = undefined;
+	} else if (!feed.alias && !keepOldAddress) {
+		idAddressEnabled = false;
+	}
+
+	return {
+		...feed,
+		alias,
+		emailAddress: alias ? aliasAddress(alias) : `${feed.id}@${EMAIL_DOMAIN}`,
+		idAddressEnabled,
+	};
+}
+
+async function handleUpdateFeed(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		const body = (await request.json()) as FeedSettingsInput & {
+			alias?: unknown;
+			keepOldAddress?: unknown;
+		};
+
+		const parsed = parseFeedSettings(body);
+		if (parsed.status === "invalid") {
+			return jsonResponse({ error: parsed.error }, 400);
+		}
+		const { settings } = parsed;
+
+		if (
+			body.keepOldAddress !== undefined &&
+			typeof body.keepOldAddress !== "boolean"
+		) {
+			return jsonResponse({ error: "keepOldAddress must be a boolean" }, 400);
+		}
+
+		let updated: Feed = { ...feed, ...settings };
+
+		// Switching visibility issues or drops the token; staying private keeps
+		// the current one
+		if (settings.visibility === "private" && !feed.accessToken) {
+			updated.accessToken = generateAccessToken();
+		} else if (settings.visibility === "public") {
+			updated.accessToken = undefined;
+		}
+
+		if (body.alias !== undefined) {
+			const aliased = await changeFeedAlias(
+				env,
+				updated,
+				body.alias,
+				body.keepOldAddress ?? true,
+			);
+			if (aliased instanceof Response) return aliased;
+			updated = aliased;
+		}
+
+		await env.DATA.put(`feed:${feedId}`, JSON.stringify(updated));
+		await invalidateRenderedFeed(env.DATA, feed);
+		if (settings.retention) {
+			await setFeedRetention(env.DB, feedId, settings.retention);
+		}
+
+		return jsonResponse({ feed: publicFeed(updated) });
+	} catch (error) {
+		console.error("Update feed error:", error);
+		return jsonResponse({ error: "Failed to update feed" }, 500);
+	}
+}
+
+type FeedResponse = Omit<Feed, "userId"> & { url: string };
+
+// Feed fields returned by the API, with defaults applied. Only ever sent to
+// the owner, so it includes the access token of private feeds.
+function publicFeed(feed: Feed): FeedResponse {
+	return {
+		id: feed.id,
+		name: feed.name,
+		description: feed.description,
+		emailAddress: feed.emailAddress,
+		alias: feed.alias,
+		createdAt: feed.createdAt,
+		stripTracking: feed.stripTracking ?? true,
+		retention: feed.retention ?? {},
+		visibility: feed.visibility ?? "public",
+		accessToken: isPrivateFeed(feed) ? feed.accessToken : undefined,
+		pageSize: feedPageSize(feed),
+		folders: feed.folders ?? [],
+		inbox: feed.inbox,
+		inboxId: feed.inboxId,
+		autoConfirm: feed.autoConfirm ?? false,
+		url: feedUrl(feed),
+	};
+}
+
+async function handleSetVisibility(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		const body = (await request.json()) as { visibility?: unknown };
+		if (!isFeedVisibility(body.visibility)) {
+			return jsonResponse(
+				{ error: "visibility must be public or private" },
+				400,
+			);
+		}
+
+		// Going private always issues a fresh token, so URLs shared while the
+		// feed was public (or private before) stop working
+		const updated: Feed = {
+			...feed,
+			visibility: body.visibility,
+			accessToken:
+				body.visibility === "private" ? generateAccessToken() : undefined,
+		};
+		await env.DATA.put(`feed:${feedId}`, JSON.stringify(updated));
+		await invalidateRenderedFeed(env.DATA, feed);
+
+		return jsonResponse({ feed: publicFeed(updated) });
+	} catch (error) {
+		console.error("Set visibility error:", error);
+		return jsonResponse({ error: "Failed to update visibility" }, 500);
+	}
+}
+
+// Replaces a private feed's token, invalidating every URL that used the old one
+async function handleRotateToken(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		if (!isPrivateFeed(feed)) {
+			return jsonResponse({ error: "Feed is public" }, 400);
+		}
+
+		const updated: Feed = { ...feed, accessToken: generateAccessToken() };
+		await env.DATA.put(`feed:${feedId}`, JSON.stringify(updated));
+		await invalidateRenderedFeed(env.DATA, feed);
+
+		return jsonResponse({ feed: publicFeed(updated) });
+	} catch (error) {
+		console.error("Rotate token error:", error);
+		return jsonResponse({ error: "Failed to rotate token" }, 500);
+	}
+}
+
+async function handleListFeeds(
+	request: Request,
+	env: typeof worker.Env,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const url = new URL(request.url);
+		const pageOptions = {
+			limit: clampPageSize(url.searchParams.get("limit")),
+			cursor: url.searchParams.get("cursor") ?? undefined,
+		};
+
+		let page = await listUserFeedIds(env.DB, auth.userId, pageOptions);
+
+		// Users who haven't created a feed since the D1 move still have their
+		// list in KV; migrate it on first read
+		if (page.items.length === 0 && !pageOptions.cursor) {
+			await migrateLegacyUserIndex(env.DATA, env.DB, auth.userId);
+			page = await listUserFeedIds(env.DB, auth.userId, pageOptions);
+		}
+
+		const records = await Promise.all(
+			page.items.map((feedId) => env.DATA.get<Feed>(`feed:${feedId}`, "json")),
+		);
+
+		const feeds: FeedResponse[] = [];
+
+		for (const feed of records) {
+			if (feed) {
+				feeds.push(publicFeed(feed));
+			}
+		}
+
+		return jsonResponse({ feeds, nextCursor: page.nextCursor });
+	} catch (error) {
+		console.error("List feeds error:", error);
+		return jsonResponse({ error: "Failed to list feeds" }, 500);
+	}
+}
+
+// Every feed the user owns, oldest first
+async function loadUserFeeds(
+	env: typeof worker.Env,
+	userId: string,
+): Promise<Feed[]> {
+	await migrateLegacyUserIndex(env.DATA, env.DB, userId);
+
+	const feeds: Feed[] = [];
+	let cursor: string | undefined;
+	do {
+		const page = await listUserFeedIds(env.DB, userId, { cursor });
+		const records = await Promise.all(
+			page.items.map((feedId) => env.DATA.get<Feed>(`feed:${feedId}`, "json")),
+		);
+		for (const feed of records) {
+			if (feed) {
+				feeds.push(feed);
+			}
+		}
+		cursor = page.nextCursor;
+	} while (cursor);
+
+	return feeds;
+}
+
+// Settings that aren't part of OPML travel as unletter:* attributes so an
+// export can be imported back as the same set of feeds
+function feedOutline(feed: Feed): OpmlOutline {
+	const retention = feed.retention ?? {};
+	return {
+		type: "rss",
+		text: feed.name,
+		title: feed.name,
+		description: feed.description,
+		xmlUrl: feedUrl(feed, "/rss"),
+		htmlUrl: feedUrl(feed),
+		category:
+			feed.folders?.map((folder) => `/${folder}`).join(",") || undefined,
+		"unletter:visibility": feed.visibility ?? "public",
+		"unletter:stripTracking": String(feed.stripTracking ?? true),
+		"unletter:inbox": feed.inbox?.split,
+		"unletter:pageSize": feed.pageSize?.toString(),
+		"unletter:maxItems": retention.maxItems?.toString(),
+		"unletter:maxAgeDays": retention.maxAgeDays?.toString(),
+	};
+}
+
+function outlineSettings(outline: OpmlOutline): FeedSettingsInput {
+	const number = (value: string | undefined) =>
+		value === undefined ? undefined : Number(value);
+	const flag = (value: string | undefined) =>
+		value === undefined ? undefined : value === "true";
+
+	// OPML categories are comma-separated slash paths ("/Tech,/News/Daily");
+	// the last segment of each becomes a folder
+	const folders = outline.category
+		?.split(",")
+		.map((category) => category.split("/").filter(Boolean).pop()?.trim())
+		.filter(Boolean);
+
+	const maxItems = number(outline["unletter:maxItems"]);
+	const maxAgeDays = number(outline["unletter:maxAgeDays"]);
+
+	return {
+		name: outline.text ?? outline.title ?? "",
+		description: outline.description,
+		stripTracking: flag(outline["unletter:stripTracking"]),
+		visibility: outline["unletter:visibility"],
+		pageSize: number(outline["unletter:pageSize"]),
+		folders,
+		inbox: outline["unletter:inbox"]
+			? { split: outline["unletter:inbox"] }
+			: undefined,
+		retention:
+			maxItems === undefined && maxAgeDays === undefined
+				? undefined
+				: { maxItems, maxAgeDays },
+	};
+}
+
+async function handleExportOpml(
+	request: Request,
+	env: typeof worker.Env,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feeds = await loadUserFeeds(env, auth.userId);
+		const user = await env.DATA.get<User>(`user:${auth.userId}`, "json");
+
+		const opml = buildOpml(
+			{
+				title: "unletter feeds",
+				dateCreated: new Date().toISOString(),
+				ownerEmail: user?.email,
+			},
+			feeds.map(feedOutline),
+		);
+
+		return new Response(opml, {
+			headers: {
+				"content-type": OPML_CONTENT_TYPE,
+				"content-disposition": 'attachment; filename="unletter-feeds.opml"',
+			},
+		});
+	} catch (error) {
+		console.error("Export OPML error:", error);
+		return jsonResponse({ error: "Failed to export feeds" }, 500);
+	}
+}
+
+const MAX_OPML_BYTES = 1024 * 1024;
+const MAX_IMPORTED_FEEDS = 100;
+
+// Creates a feed for every feed outline. Outlines whose settings don't
+// validate are reported in skipped rather than failing the whole import.
+// Imported feeds get new ids and addresses; xmlUrl isn't reused.
+async function handleImportOpml(
+	request: Request,
+	env: typeof worker.Env,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const declaredLength = Number(request.headers.get("content-length"));
+		if (declaredLength > MAX_OPML_BYTES) {
+			return jsonResponse({ error: "OPML document is too large" }, 413);
+		}
+
+		const text = await request.text();
+		if (text.length > MAX_OPML_BYTES) {
+			return jsonResponse({ error: "OPML document is too large" }, 413);
+		}
+
+		const outlines = parseOpmlOutlines(text);
+		if (!outlines) {
+			return jsonResponse({ error: "Body must be an OPML document" }, 400);
+		}
+
+		if (outlines.length > MAX_IMPORTED_FEEDS) {
+			return jsonResponse(
+				{
+					error: `At most ${MAX_IMPORTED_FEEDS} feeds can be imported at once`,
+				},
+				400,
+			);
+		}
+
+		const feeds: FeedResponse[] = [];
+		const skipped: { name?: string; error: string }[] = [];
+
+		for (const outline of outlines) {
+			const parsed = parseFeedSettings(outlineSettings(outline));
+			if (parsed.status === "invalid") {
+				skipped.push({
+					name: outline.text ?? outline.title,
+					error: parsed.error,
+				});
+				continue;
+			}
+
+			const { settings } = parsed;
+			const feed = buildFeed(auth.userId, settings.name ?? "", settings);
+			await storeNewFeed(env, feed);
+			feeds.push(publicFeed(feed));
+		}
+
+		return jsonResponse({ feeds, skipped }, 201);
+	} catch (error) {
+		console.error("Import OPML error:", error);
+		return jsonResponse({ error: "Failed to import feeds" }, 500);
+	}
+}
+
+async function handleDeleteFeed(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		// Get feed and verify ownership
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		// ?unsubscribe=true leaves the feed's newsletters first, so they stop
+		// mailing an address that no longer exists
+		const unsubscribed =
+			new URL(request.url).searchParams.get("unsubscribe") === "true"
+				? await unsubscribeSenders(env, feedId)
+				: undefined;
+
+		// Get all emails for this feed, quarantined ones included, and delete
+		// them
+		await migrateLegacyFeedIndex(env.DATA, env.DB, feedId);
+		const emailIds = await listAllFeedEmailIds(env.DB, feedId);
+		const quarantinedIds = await clearQuarantinedEmails(env.DB, feedId);
+		const confirmationIds = await clearFeedConfirmations(env.DB, feedId);
+
+		await deleteStoredEmails(env, [
+			...emailIds,
+			...quarantinedIds,
+			...confirmationIds,
+		]);
+		await removeFeedRecord(env, feed);
+
+		return jsonResponse({ message: "Feed deleted", unsubscribed });
+	} catch (error) {
+		console.error("Delete feed error:", error);
+		return jsonResponse({ error: "Failed to delete feed" }, 500);
+	}
+}
+
+// Deletes a feed and everything keyed by it, apart from its emails
+async function removeFeedRecord(
+	env: typeof worker.Env,
+	feed: Feed,
+): Promise<void> {
+	// Delete feed data
+	await env.DATA.delete(`feed:${feed.id}`);
+	await removeFeedEmails(env.DB, feed.id);
+	await invalidateRenderedFeed(env.DATA, feed);
+	await removeFeedRetention(env.DB, feed.id);
+	await removeFeedSubscriptions(env.DB, feed.id);
+	await removeFeedDeliveries(env.DB, feed.id);
+	await removeFeedInboxRoutes(env.DB, feed.id);
+	await removeFeedUnsubscribeLinks(env.DB, feed.id);
+	await releaseFeedAliases(env.DB, feed.id);
+
+	// Remove from user's feed list
+	await migrateLegacyUserIndex(env.DATA, env.DB, feed.userId);
+	await removeUserFeed(env.DB, feed.userId, feed.id);
+}
+
+async function deleteStoredEmails(
+	env: typeof worker.Env,
+	emailIds: string[],
+): Promise<void> {
+	await Promise.all(
+		emailIds.map((emailId) =>
+			Promise.all([
+				env.DATA.delete(`email:${emailId}`),
+				deleteEmailBlobs(env.BLOBS, emailId),
+			]),
+		),
+	);
+}
+
+// Unsubscribe handlers
+
+async function handleListUnsubscribeLinks(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		const senders = await listUnsubscribeLinks(
+			env.DB,
+			feedId,
+			MAX_UNSUBSCRIBE_SENDERS,
+		);
+		return jsonResponse({ senders });
+	} catch (error) {
+		console.error("List unsubscribe links error:", error);
+		return jsonResponse({ error: "Failed to list unsubscribe links" }, 500);
+	}
+}
+
+async function handleUnsubscribe(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		const parsed = parseUnsubscribeRequest(await request.text());
+		if (parsed.status === "invalid") {
+			return jsonResponse({ error: parsed.error }, 400);
+		}
+
+		const results = await unsubscribeSenders(env, feedId, parsed.senders);
+		return jsonResponse({ results });
+	} catch (error) {
+		console.error("Unsubscribe error:", error);
+		return jsonResponse({ error: "Failed to unsubscribe" }, 500);
+	}
+}
+
+// Without senders, goes through all of the feed's senders a page at a time
+async function unsubscribeSenders(
+	env: typeof worker.Env,
+	feedId: string,
+	senders?: string[],
+): Promise<UnsubscribeResult[]> {
+	if (senders) {
+		const links = await listUnsubscribeLinks(
+			env.DB,
+			feedId,
+			MAX_UNSUBSCRIBE_SENDERS,
+			senders,
+		);
+		return unsubscribeLinks(env, feedId, links);
+	}
+
+	const results: UnsubscribeResult[] = [];
+	let after: string | undefined;
+	let links: UnsubscribeLink[];
+	do {
+		links = await pageUnsubscribeLinks(
+			env.DB,
+			feedId,
+			MAX_UNSUBSCRIBE_SENDERS,
+			after,
+		);
+		results.push(...(await unsubscribeLinks(env, feedId, links)));
+		after = links.at(-1)?.sender;
+	} while (links.length === MAX_UNSUBSCRIBE_SENDERS);
+	return results;
+}
+
+// One-click unsubscribes run in parallel; senders without one-click come
+// back with their links as "manual"
+async function unsubscribeLinks(
+	env: typeof worker.Env,
+	feedId: string,
+	links: UnsubscribeLink[],
+): Promise<UnsubscribeResult[]> {
+	const results = await Promise.all(links.map(unsubscribeSender));
+	await markUnsubscribed(
+		env.DB,
+		feedId,
+		results
+			.filter((result) => result.status === "unsubscribed")
+			.map((result) => result.sender),
+	);
+	return results;
+}
+
+// Inbox handlers
+
+async function handleListInboxRoutes(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		if (!feed.inbox) {
+			return jsonResponse({ error: "Feed is not an inbox" }, 400);
+		}
+
+		const routes = await listInboxRoutes(env.DB, feed.id);
+		return jsonResponse({ split: feed.inbox.split, routes });
+	} catch (error) {
+		console.error("List inbox routes error:", error);
+		return jsonResponse({ error: "Failed to list inbox routes" }, 500);
+	}
+}
+
+// Points moved emails' records at their new feed
+async function reassignEmails(
+	env: typeof worker.Env,
+	emailIds: string[],
+	feedId: string,
+): Promise<void> {
+	const emails = await getEmails(env.DATA, emailIds);
+	await Promise.all(
+		emails.map((email) =>
+			env.DATA.put(`email:${email.id}`, JSON.stringify({ ...email, feedId })),
+		),
+	);
+}
+
+// Moves every email and inbox route of the listed feeds into this one, then
+// deletes them
+async function handleMergeFeeds(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const target = await getOwnedFeed(env, feedId, auth.userId);
+		if (target instanceof Response) return target;
+
+		const body = (await request.json()) as { feedIds?: unknown };
+		if (
+			!Array.isArray(body.feedIds) ||
+			body.feedIds.length === 0 ||
+			!body.feedIds.every((id) => typeof id === "string" && id !== feedId)
+		) {
+			return jsonResponse(
+				{ error: "feedIds must list the feeds to merge into this one" },
+				400,
+			);
+		}
+
+		const sources: Feed[] = [];
+		for (const sourceId of new Set<string>(body.feedIds)) {
+			const source = await getOwnedFeed(env, sourceId, auth.userId);
+			if (source instanceof Response) return source;
+			sources.push(source);
+		}
+
+		await migrateLegacyFeedIndex(env.DATA, env.DB, target.id);
+		let total = 0;
+		for (const source of sources) {
+			await migrateLegacyFeedIndex(env.DATA, env.DB, source.id);
+			total += await countFeedEmails(env.DB, source.id);
+		}
+		if (total > MAX_MOVED_EMAILS) {
+			return jsonResponse(
+				{ error: `At most ${MAX_MOVED_EMAILS} emails can be moved at once` },
+				400,
+			);
+		}
+
+		for (const source of sources) {
+			const emailIds = await moveFeedEmails(env.DB, source.id, target.id);
+			const quarantinedIds = await moveQuarantinedEmails(
+				env.DB,
+				source.id,
+				target.id,
+			);
+			const confirmationIds = await moveFeedConfirmations(
+				env.DB,
+				source.id,
+				target.id,
+			);
+			await reassignEmails(
+				env,
+				[...emailIds, ...quarantinedIds, ...confirmationIds],
+				target.id,
+			);
+			await moveInboxRoutes(env.DB, source.id, target.id);
+			await moveUnsubscribeLinks(env.DB, source.id, target.id);
+			await removeFeedRecord(env, source);
+		}
+
+		await invalidateRenderedFeed(env.DATA, target);
+
+		return jsonResponse({
+			feed: publicFeed(target),
+			merged: sources.map((source) => source.id),
+		});
+	} catch (error) {
+		console.error("Merge feeds error:", error);
+		return jsonResponse({ error: "Failed to merge feeds" }, 500);
+	}
+}
+
+// Moves some of a feed's inbox routes, and the mail that arrived through
+// them, to a new feed
+async function handleSplitFeed(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		const body = (await request.json()) as {
+			routeKeys?: unknown;
+			name?: unknown;
+		};
+
+		const routes = await listFeedRoutes(env.DB, feed.id);
+		const labels = new Map(routes.map((route) => [route.key, route.label]));
+		if (
+			!Array.isArray(body.routeKeys) ||
+			body.routeKeys.length === 0 ||
+			body.routeKeys.length > MAX_SPLIT_ROUTES ||
+			!body.routeKeys.every((key) => labels.has(key))
+		) {
+			return jsonResponse(
+				{
+					error: `routeKeys must list 1 to ${MAX_SPLIT_ROUTES} of this feed's inbox routes`,
+				},
+				400,
+			);
+		}
+		const routeKeys = [...new Set<string>(body.routeKeys)];
+
+		const parsed = parseFeedSettings({
+			name: body.name ?? labels.get(routeKeys[0]),
+		});
+		if (parsed.status === "invalid") {
+			return jsonResponse({ error: parsed.error }, 400);
+		}
+		const { settings } = parsed;
+
+		const count = await countFeedEmails(env.DB, feed.id, routeKeys);
+		if (count > MAX_MOVED_EMAILS) {
+			return jsonResponse(
+				{ error: `At most ${MAX_MOVED_EMAILS} emails can be moved at once` },
+				400,
+			);
+		}
+
+		const created: Feed = {
+			...buildFeed(
+				auth.userId,
+				settings.name ?? feed.name,
+				inheritedSettings(feed),
+			),
+			inboxId: feed.inboxId ?? (feed.inbox ? feed.id : undefined),
+		};
+		await storeNewFeed(env, created);
+
+		await moveInboxRoutes(env.DB, feed.id, created.id, routeKeys);
+		const emailIds = await moveFeedEmails(
+			env.DB,
+			feed.id,
+			created.id,
+			routeKeys,
+		);
+		await reassignEmails(env, emailIds, created.id);
+		await invalidateRenderedFeed(env.DATA, feed);
+
+		return jsonResponse(
+			{ feed: publicFeed(created), moved: emailIds.length },
+			201,
+		);
+	} catch (error) {
+		console.error("Split feed error:", error);
+		return jsonResponse({ error: "Failed to split feed" }, 500);
+	}
+}
+
+// Confirmation handlers
+
+async function handleListConfirmations(
+	request: Request,
+	env: typeof worker.Env,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const confirmations = await listPendingConfirmations(
+			env.DB,
+			auth.userId,
+			MAX_PAGE_SIZE,
+		);
+		return jsonResponse({ confirmations });
+	} catch (error) {
+		console.error("List confirmations error:", error);
+		return jsonResponse({ error: "Failed to list confirmations" }, 500);
+	}
+}
+
+// The email has done its job once the subscription is confirmed or the
+// request dismissed
+async function finishConfirmation(
+	env: typeof worker.Env,
+	emailId: string,
+): Promise<void> {
+	await removePendingConfirmation(env.DB, emailId);
+	await deleteStoredEmails(env, [emailId]);
+}
+
+async function handleConfirmSubscription(
+	request: Request,
+	env: typeof worker.Env,
+	emailId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const pending = await getPendingConfirmation(env.DB, auth.userId, emailId);
+		if (!pending) {
+			return jsonResponse({ error: "Confirmation not found" }, 404);
+		}
+
+		// Some platforms need a real browser; the link is returned so the
+		// client can open it instead
+		const attempt = await confirmSubscription(pending.url);
+		if (!attempt.ok) {
+			return jsonResponse(
+				{
+					error: "The confirmation link failed",
+					statusCode: attempt.statusCode,
+					url: pending.url,
+				},
+				502,
+			);
+		}
+
+		await finishConfirmation(env, emailId);
+		return jsonResponse({ confirmed: true });
+	} catch (error) {
+		console.error("Confirm subscription error:", error);
+		return jsonResponse({ error: "Failed to confirm subscription" }, 500);
+	}
+}
+
+async function handleDismissConfirmation(
+	request: Request,
+	env: typeof worker.Env,
+	emailId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const pending = await getPendingConfirmation(env.DB, auth.userId, emailId);
+		if (!pending) {
+			return jsonResponse({ error: "Confirmation not found" }, 404);
+		}
+
+		await finishConfirmation(env, emailId);
+		return jsonResponse({ message: "Confirmation dismissed" });
+	} catch (error) {
+		console.error("Dismiss confirmation error:", error);
+		return jsonResponse({ error: "Failed to dismiss confirmation" }, 500);
+	}
+}
+
+// Publishes an email that was mistaken for a confirmation request to its feed
+async function handleReleaseConfirmation(
+	request: Request,
+	env: typeof worker.Env,
+	emailId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const pending = await getPendingConfirmation(env.DB, auth.userId, emailId);
+		if (!pending) {
+			return jsonResponse({ error: "Confirmation not found" }, 404);
+		}
+
+		const feed = await getOwnedFeed(env, pending.feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		const email = await env.DATA.get<StoredEmail>(`email:${emailId}`, "json");
+		if (!email) {
+			return jsonResponse({ error: "Email not found" }, 404);
+		}
+
+		await removePendingConfirmation(env.DB, emailId);
+		await migrateLegacyFeedIndex(env.DATA, env.DB, feed.id);
+		await addFeedEmail(
+			env.DB,
+			feed.id,
+			emailId,
+			email.timestamp,
+			email.routeKey,
+		);
+		await invalidateRenderedFeed(env.DATA, feed);
+		await enqueueWebhooks(env, feed, "email.received", email);
+
+		return jsonResponse({ message: "Email released" });
+	} catch (error) {
+		console.error("Release confirmation error:", error);
+		return jsonResponse({ error: "Failed to release email" }, 500);
+	}
+}
+
+// Runs after the response; a failed attempt leaves the request pending
+async function autoConfirmSubscription(
+	env: typeof worker.Env,
+	emailId: string,
+	url: string,
+): Promise<void> {
+	try {
+		const attempt = await confirmSubscription(url);
+		if (!attempt.ok) {
+			console.warn(
+				`Auto-confirm failed for email ${emailId}: ${attempt.statusCode ?? attempt.error}`,
+			);
+			return;
+		}
+		await finishConfirmation(env, emailId);
+		console.log(`Auto-confirmed subscription from email ${emailId}`);
+	} catch (error) {
+		console.error("Auto-confirm error:", error);
+	}
+}
+
+// Email handlers
+
+const MAX_SUBJECT_LENGTH = 500;
+
+// Email metadata returned by the API; bodies are only included for single
+// emails
+function emailSummary(feed: Feed, email: StoredEmail, hidden: boolean) {
+	return {
+		id: email.id,
+		subject: email.subject,
+		from: email.from,
+		timestamp: email.timestamp,
+		webViewLink: email.webViewLink,
+		newsletter: email.newsletter,
+		hidden,
+		attachments: email.attachments ?? [],
+		viewUrl: feedUrl(feed, `/view/${email.id}`),
+	};
+}
+
+// Loads an email after checking that it belongs to the feed
+async function getFeedEmailRecord(
+	env: typeof worker.Env,
+	feedId: string,
+	emailId: string,
+): Promise<StoredEmail | Response> {
+	const email = await env.DATA.get<StoredEmail>(`email:${emailId}`, "json");
+	if (!email || email.feedId !== feedId) {
+		return jsonResponse({ error: "Email not found" }, 404);
+	}
+	return email;
+}
+
+async function handleListEmails(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		const url = new URL(request.url);
+		const pageOptions = {
+			limit: clampPageSize(url.searchParams.get("limit")),
+			cursor: url.searchParams.get("cursor") ?? undefined,
+			includeHidden: true,
+		};
+
+		await migrateLegacyFeedIndex(env.DATA, env.DB, feedId);
+		const page = await listFeedEmails(env.DB, feedId, pageOptions);
+
+		const emails = await getEmails(
+			env.DATA,
+			page.items.map((entry) => entry.emailId),
+		);
+		const emailsById = new Map(emails.map((email) => [email.id, email]));
+
+		const items = page.items.flatMap((entry) => {
+			const email = emailsById.get(entry.emailId);
+			return email ? [emailSummary(feed, email, entry.hidden)] : [];
+		});
+
+		return jsonResponse({ emails: items, nextCursor: page.nextCursor });
+	} catch (error) {
+		console.error("List emails error:", error);
+		return jsonResponse({ error: "Failed to list emails" }, 500);
+	}
+}
+
+async function handleGetEmail(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+	emailId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		const email = await getFeedEmailRecord(env, feedId, emailId);
+		if (email instanceof Response) return email;
+
+		const entry = await getFeedEmail(env.DB, feedId, emailId);
+		const body = await getBody(env.BLOBS, email);
+
+		return jsonResponse({
+			email: {
+				...emailSummary(feed, email, entry?.hidden ?? false),
+				// Quarantined emails aren't in the feed index yet
+				quarantined: !entry,
+				messageId: email.messageId,
+				html: body.html,
+				text: body.text,
+			},
+		});
+	} catch (error) {
+		console.error("Get email error:", error);
+		return jsonResponse({ error: "Failed to get email" }, 500);
+	}
+}
+
+async function handleUpdateEmail(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+	emailId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		const email = await getFeedEmailRecord(env, feedId, emailId);
+		if (email instanceof Response) return email;
+
+		const body = (await request.json()) as {
+			subject?: unknown;
+			hidden?: unknown;
+		};
+
+		if (body.hidden !== undefined && typeof body.hidden !== "boolean") {
+			return jsonResponse({ error: "hidden must be a boolean" }, 400);
+		}
+
+		let subject = email.subject;
+		if (body.subject !== undefined) {
+			subject = typeof body.subject === "string" ? body.subject.trim() : "";
+			if (!subject || subject.length > MAX_SUBJECT_LENGTH) {
+				return jsonResponse(
+					{
+						error: `subject must be 1-${MAX_SUBJECT_LENGTH} characters`,
+					},
+					400,
+				);
+			}
+		}
+
+		const entry = await getFeedEmail(env.DB, feedId, emailId);
+		if (typeof body.hidden === "boolean") {
+			if (!entry) {
+				return jsonResponse(
+					{ error: "Email is quarantined; release it first" },
+					409,
+				);
+			}
+			await setFeedEmailHidden(env.DB, feedId, emailId, body.hidden);
+		}
+
+		const updated: StoredEmail = { ...email, subject };
+		if (subject !== email.subject) {
+			await env.DATA.put(`email:${emailId}`, JSON.stringify(updated));
+		}
+		await invalidateRenderedFeed(env.DATA, feed);
+
+		const hidden =
+			typeof body.hidden === "boolean" ? body.hidden : (entry?.hidden ?? false);
+
+		return jsonResponse({ email: emailSummary(feed, updated, hidden) });
+	} catch (error) {
+		console.error("Update email error:", error);
+		return jsonResponse({ error: "Failed to update email" }, 500);
+	}
+}
+
+async function handleDeleteEmail(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+	emailId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		const email = await getFeedEmailRecord(env, feedId, emailId);
+		if (email instanceof Response) return email;
+
+		await migrateLegacyFeedIndex(env.DATA, env.DB, feedId);
+		await removeFeedEmail(env.DB, feedId, emailId);
+		await removeQuarantinedEmail(env.DB, feedId, emailId);
+		await deleteStoredEmails(env, [emailId]);
+		await invalidateRenderedFeed(env.DATA, feed);
+
+		return jsonResponse({ message: "Email deleted" });
+	} catch (error) {
+		console.error("Delete email error:", error);
+		return jsonResponse({ error: "Failed to delete email" }, 500);
+	}
+}
+
+// Rule handlers
+
+// Checks that every route rule points at another feed owned by the user
+async function validateRouteTargets(
+	env: typeof worker.Env,
+	feed: Feed,
+	rules: FeedRule[],
+): Promise<Response | null> {
+	for (const rule of rules) {
+		if (rule.action !== "route" || !rule.targetFeedId) {
+			continue;
+		}
+
+		if (rule.targetFeedId === feed.id) {
+			return jsonResponse({ error: "A feed can't route to itself" }, 400);
+		}
+
+		const target = await getOwnedFeed(env, rule.targetFeedId, feed.userId);
+		if (target instanceof Response) {
+			return jsonResponse(
+				{ error: `Unknown target feed: ${rule.targetFeedId}` },
+				400,
+			);
+		}
+	}
+
+	return null;
+}
+
+async function saveRules(
+	env: typeof worker.Env,
+	feed: Feed,
+	rules: FeedRule[],
+	defaultRuleAction = feed.defaultRuleAction,
+): Promise<Response> {
+	const updated: Feed = { ...feed, rules, defaultRuleAction };
+	await env.DATA.put(`feed:${feed.id}`, JSON.stringify(updated));
+
+	return jsonResponse({
+		rules,
+		defaultAction: defaultRuleAction ?? "allow",
+	});
+}
+
+async function handleListRules(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		return jsonResponse({
+			rules: feed.rules ?? [],
+			defaultAction: feed.defaultRuleAction ?? "allow",
+		});
+	} catch (error) {
+		console.error("List rules error:", error);
+		return jsonResponse({ error: "Failed to list rules" }, 500);
+	}
+}
+
+// Replaces the whole rule list, e.g. to reorder it or change the default
+async function handleReplaceRules(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		const body = (await request.json()) as {
+			rules?: unknown;
+			defaultAction?: unknown;
+		};
+
+		if (!Array.isArray(body.rules) || body.rules.length > MAX_RULES_PER_FEED) {
+			return jsonResponse(
+				{ error: `rules must be a list of up to ${MAX_RULES_PER_FEED} rules` },
+				400,
+			);
+		}
+
+		if (
+			body.defaultAction !== undefined &&
+			!isDefaultRuleAction(body.defaultAction)
+		) {
+			return jsonResponse(
+				{ error: "defaultAction must be one of allow, drop, quarantine" },
+				400,
+			);
+		}
+
+		const rules: FeedRule[] = [];
+		for (const input of body.rules) {
+			// Existing ids are kept so clients can round-trip the list
+			const id =
+				typeof input?.id === "string" && /^[\w-]{1,32}$/.test(input.id)
+					? input.id
+					: undefined;
+			const parsed = parseFeedRule(input, id);
+			if (parsed.status === "invalid") {
+				return jsonResponse({ error: parsed.error }, 400);
+			}
+			rules.push(parsed.rule);
+		}
+
+		const invalidTarget = await validateRouteTargets(env, feed, rules);
+		if (invalidTarget) return invalidTarget;
+
+		return saveRules(
+			env,
+			feed,
+			rules,
+			isDefaultRuleAction(body.defaultAction)
+				? body.defaultAction
+				: feed.defaultRuleAction,
+		);
+	} catch (error) {
+		console.error("Replace rules error:", error);
+		return jsonResponse({ error: "Failed to save rules" }, 500);
+	}
+}
+
+async function handleCreateRule(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		const rules = feed.rules ?? [];
+		if (rules.length >= MAX_RULES_PER_FEED) {
+			return jsonResponse(
+				{ error: `Feeds can have at most ${MAX_RULES_PER_FEED} rules` },
+				400,
+			);
+		}
+
+		const parsed = parseFeedRule(await request.json());
+		if (parsed.status === "invalid") {
+			return jsonResponse({ error: parsed.error }, 400);
+		}
+
+		const invalidTarget = await validateRouteTargets(env, feed, [parsed.rule]);
+		if (invalidTarget) return invalidTarget;
+
+		await saveRules(env, feed, [...rules, parsed.rule]);
+
+		return jsonResponse({ rule: parsed.rule }, 201);
+	} catch (error) {
+		console.error("Create rule error:", error);
+		return jsonResponse({ error: "Failed to create rule" }, 500);
+	}
+}
+
+async function handleUpdateRule(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+	ruleId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		const rules = feed.rules ?? [];
+		const index = rules.findIndex((rule) => rule.id === ruleId);
+		if (index === -1) {
+			return jsonResponse({ error: "Rule not found" }, 404);
+		}
+
+		const parsed = parseFeedRule(await request.json(), ruleId);
+		if (parsed.status === "invalid") {
+			return jsonResponse({ error: parsed.error }, 400);
+		}
+
+		const invalidTarget = await validateRouteTargets(env, feed, [parsed.rule]);
+		if (invalidTarget) return invalidTarget;
+
+		await saveRules(env, feed, rules.with(index, parsed.rule));
+
+		return jsonResponse({ rule: parsed.rule });
+	} catch (error) {
+		console.error("Update rule error:", error);
+		return jsonResponse({ error: "Failed to update rule" }, 500);
+	}
+}
+
+async function handleDeleteRule(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+	ruleId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		const rules = feed.rules ?? [];
+		if (!rules.some((rule) => rule.id === ruleId)) {
+			return jsonResponse({ error: "Rule not found" }, 404);
+		}
+
+		await saveRules(
+			env,
+			feed,
+			rules.filter((rule) => rule.id !== ruleId),
+		);
+
+		return jsonResponse({ message: "Rule deleted" });
+	} catch (error) {
+		console.error("Delete rule error:", error);
+		return jsonResponse({ error: "Failed to delete rule" }, 500);
+	}
+}
+
+// Webhook handlers
+
+// Secrets are only returned when a webhook is created
+function publicWebhook(webhook: FeedWebhook) {
+	return {
+		id: webhook.id,
+		url: webhook.url,
+		events: webhook.events,
+		createdAt: webhook.createdAt,
+	};
+}
+
+async function handleListWebhooks(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		return jsonResponse({
+			webhooks: (feed.webhooks ?? []).map(publicWebhook),
+		});
+	} catch (error) {
+		console.error("List webhooks error:", error);
+		return jsonResponse({ error: "Failed to list webhooks" }, 500);
+	}
+}
+
+async function handleCreateWebhook(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		const webhooks = feed.webhooks ?? [];
+		if (webhooks.length >= MAX_WEBHOOKS_PER_FEED) {
+			return jsonResponse(
+				{ error: `Feeds can have at most ${MAX_WEBHOOKS_PER_FEED} webhooks` },
+				400,
+			);
+		}
+
+		const parsed = parseFeedWebhook(await request.json());
+		if (parsed.status === "invalid") {
+			return jsonResponse({ error: parsed.error }, 400);
+		}
+
+		const updated: Feed = { ...feed, webhooks: [...webhooks, parsed.webhook] };
+		await env.DATA.put(`feed:${feedId}`, JSON.stringify(updated));
+
+		return jsonResponse({ webhook: parsed.webhook }, 201);
+	} catch (error) {
+		console.error("Create webhook error:", error);
+		return jsonResponse({ error: "Failed to create webhook" }, 500);
+	}
+}
+
+async function handleDeleteWebhook(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+	webhookId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		const webhooks = feed.webhooks ?? [];
+		if (!webhooks.some((webhook) => webhook.id === webhookId)) {
+			return jsonResponse({ error: "Webhook not found" }, 404);
+		}
+
+		// Queued deliveries for it are dropped by the consumer
+		const updated: Feed = {
+			...feed,
+			webhooks: webhooks.filter((webhook) => webhook.id !== webhookId),
+		};
+		await env.DATA.put(`feed:${feedId}`, JSON.stringify(updated));
+
+		return jsonResponse({ message: "Webhook deleted" });
+	} catch (error) {
+		console.error("Delete webhook error:", error);
+		return jsonResponse({ error: "Failed to delete webhook" }, 500);
+	}
+}
+
+async function handleListDeliveries(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+	webhookId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		if (!feed.webhooks?.some((webhook) => webhook.id === webhookId)) {
+			return jsonResponse({ error: "Webhook not found" }, 404);
+		}
+
+		const url = new URL(request.url);
+		const deliveries = await listDeliveries(
+			env.DB,
+			feedId,
+			webhookId,
+			clampPageSize(url.searchParams.get("limit")),
+		);
+
+		return jsonResponse({ deliveries });
+	} catch (error) {
+		console.error("List deliveries error:", error);
+		return jsonResponse({ error: "Failed to list deliveries" }, 500);
+	}
+}
+
+// Quarantine handlers
+
+async function handleListQuarantine(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		const url = new URL(request.url);
+		const page = await listQuarantinedEmails(env.DB, feedId, {
+			limit: clampPageSize(url.searchParams.get("limit")),
+			cursor: url.searchParams.get("cursor") ?? undefined,
+		});
+
+		const emails = await getEmails(
+			env.DATA,
+			page.items.map((entry) => entry.emailId),
+		);
+		const emailsById = new Map(emails.map((email) => [email.id, email]));
+
+		const quarantined = page.items.flatMap((entry) => {
+			const email = emailsById.get(entry.emailId);
+			return email
+				? [
+						{
+							id: email.id,
+							subject: email.subject,
+							from: email.from,
+							timestamp: email.timestamp,
+							ruleId: entry.ruleId,
+							quarantinedAt: entry.quarantinedAt,
+							viewUrl: feedUrl(feed, `/view/${email.id}`),
+						},
+					]
+				: [];
+		});
+
+		return jsonResponse({ quarantined, nextCursor: page.nextCursor });
+	} catch (error) {
+		console.error("List quarantine error:", error);
+		return jsonResponse({ error: "Failed to list quarantine" }, 500);
+	}
+}
+
+// Publishes a quarantined email to its feed
+async function handleReleaseQuarantined(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+	emailId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		const email = await env.DATA.get<StoredEmail>(`email:${emailId}`, "json");
+		if (!email || email.feedId !== feedId) {
+			return jsonResponse({ error: "Email not found" }, 404);
+		}
+
+		if (!(await removeQuarantinedEmail(env.DB, feedId, emailId))) {
+			return jsonResponse({ error: "Email is not quarantined" }, 404);
+		}
+
+		await migrateLegacyFeedIndex(env.DATA, env.DB, feedId);
+		await addFeedEmail(
+			env.DB,
+			feedId,
+			emailId,
+			email.timestamp,
+			email.routeKey,
+		);
+		await invalidateRenderedFeed(env.DATA, feed);
+		await enqueueWebhooks(env, feed, "email.received", email);
+
+		return jsonResponse({ message: "Email released" });
+	} catch (error) {
+		console.error("Release quarantine error:", error);
+		return jsonResponse({ error: "Failed to release email" }, 500);
+	}
+}
+
+async function handleDeleteQuarantined(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+	emailId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		if (!(await removeQuarantinedEmail(env.DB, feedId, emailId))) {
+			return jsonResponse({ error: "Email is not quarantined" }, 404);
+		}
+
+		await deleteStoredEmails(env, [emailId]);
+
+		return jsonResponse({ message: "Email deleted" });
+	} catch (error) {
+		console.error("Delete quarantine error:", error);
+		return jsonResponse({ error: "Failed to delete email" }, 500);
+	}
+}
+
+async function handleListDuplicates(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const feed = await getOwnedFeed(env, feedId, auth.userId);
+		if (feed instanceof Response) return feed;
+
+		const duplicates = await listDuplicates(env.DATA, feedId);
+
+		return jsonResponse({ duplicates });
+	} catch (error) {
+		console.error("List duplicates error:", error);
+		return jsonResponse({ error: "Failed to list duplicates" }, 500);
+	}
+}
+
+// Ingestion
+
+type IngestResult =
+	| {
+			status: "stored";
+			emailId: string;
+			feedId: string;
+			quarantined: boolean;
+			pendingConfirmation: boolean;
+	  }
+	| { status: "duplicate"; emailId: string; duplicateOf: string }
+	| { status: "dropped"; feedId: string; ruleId?: string }
+	| { status: "invalid_recipient" }
+	| { status: "feed_not_found" };
+
+// Applies the addressed feed's rules. Routed mail is checked against the
+// target feed's rules too, but only one hop is followed.
+async function applyFeedRules(
+	env: typeof worker.Env,
+	feed: Feed,
+	message: InboundMessage,
+): Promise<{ feed: Feed; decision: RuleDecision }> {
+	const decision = evaluateRules(feed, message);
+	if (decision.action !== "route") {
+		return { feed, decision };
+	}
+
+	const target = await env.DATA.get<Feed>(
+		`feed:${decision.targetFeedId}`,
+		"json",
+	);
+	if (!target || target.userId !== feed.userId) {
+		console.warn(
+			`Rule ${decision.ruleId} on feed ${feed.id} routes to missing feed ${decision.targetFeedId}`,
+		);
+		return { feed, decision: { action: "allow", ruleId: decision.ruleId } };
+	}
+
+	const targetDecision = evaluateRules(target, message);
+	return {
+		feed: target,
+		decision:
+			targetDecision.action === "route"
+				? { action: "allow", ruleId: targetDecision.ruleId }
+				: targetDecision,
+	};
+}
+
+// Settings an inbox's sub-feeds (and feeds split from them) start out with
+function inheritedSettings(feed: Feed): Partial<Feed> {
+	return {
+		stripTracking: feed.stripTracking,
+		visibility: feed.visibility,
+		retention: feed.retention,
+		pageSize: feed.pageSize,
+		folders: feed.folders,
+		autoConfirm: feed.autoConfirm,
+	};
+}
+
+// Reads of a feed another delivery has just stored can miss while KV catches up
+const ROUTE_FEED_READ_ATTEMPTS = 3;
+const ROUTE_FEED_RETRY_MS = 200;
+
+// Finds or creates the inbox's sub-feed for a message and applies that
+// feed's own rules; a route rule there counts as allow, as for route targets
+async function routeInboxMessage(
+	env: typeof worker.Env,
+	inbox: Feed,
+	message: InboundMessage,
+): Promise<{ feed: Feed; decision: RuleDecision; routeKey: string }> {
+	const route = inboxRoute(message, inbox.inbox?.split ?? "list");
+
+	let feedId = await findInboxRoute(env.DB, inbox.id, route.key);
+	let feed = feedId ? await env.DATA.get<Feed>(`feed:${feedId}`, "json") : null;
+
+	if (!feedId) {
+		const created: Feed = {
+			...buildFeed(inbox.userId, route.label, inheritedSettings(inbox)),
+			inboxId: inbox.id,
+		};
+		feedId = await claimInboxRoute(env.DB, inbox.id, route, created.id);
+		if (feedId === created.id) {
+			await storeNewFeed(env, created);
+			feed = created;
+			console.log(
+				`Inbox ${inbox.id} created feed ${created.id} for ${route.key}`,
+			);
+		} else {
+			feed = await env.DATA.get<Feed>(`feed:${feedId}`, "json");
+		}
+	}
+
+	// A concurrent delivery claimed the route and hasn't stored its feed yet,
+	// or KV hasn't caught up. Retry the read, then use the feed the route
+	// describes (the claiming delivery stores the record) so the message still
+	// lands in the sub-feed rather than the inbox.
+	for (let attempt = 1; attempt < ROUTE_FEED_READ_ATTEMPTS; attempt++) {
+		if (feed) {
+			break;
+		}
+		await new Promise((resolve) =>
+			setTimeout(resolve, ROUTE_FEED_RETRY_MS * attempt),
+		);
+		feed = await env.DATA.get<Feed>(`feed:${feedId}`, "json");
+	}
+	if (!feed) {
+		console.warn(
+			`Inbox ${inbox.id} route ${route.key} feed ${feedId} isn't readable yet`,
+		);
+		feed = {
+			...buildFeed(inbox.userId, route.label, inheritedSettings(inbox)),
+			id: feedId,
+			emailAddress: `${feedId}@${EMAIL_DOMAIN}`,
+			inboxId: inbox.id,
+		};
+	}
+
+	const decision = evaluateRules(feed, message);
+	return {
+		feed,
+		decision:
+			decision.action === "route"
+				? { action: "allow", ruleId: decision.ruleId }
+				: decision,
+		routeKey: route.key,
+	};
+}
+
+// Resolves the local part of a recipient address to a feed, by id first and
+// then by alias
+async function findRecipientFeed(
+	env: typeof worker.Env,
+	localPart: string,
+): Promise<Feed | null> {
+	const byId = await env.DATA.get<Feed>(`feed:${localPart}`, "json");
+	if (byId && byId.idAddressEnabled !== false) {
+		return byId;
+	}
+
+	const aliasFeedId = await lookupAlias(env.DB, localPart);
+	return aliasFeedId
+		? env.DATA.get<Feed>(`feed:${aliasFeedId}`, "json")
+		: null;
+}
+
+// Shared storage path for every inbound source (webhook and Email Routing)
+async function ingestMessage(
+	env: typeof worker.Env,
+	ctx: ExecutionContext,
+	provider: string,
+	message: InboundMessage,
+): Promise<IngestResult> {
+	// Extract feed ID or alias from recipient address
+	// Format: {feed-id}@unletter.app or {alias}@unletter.app
+	const localPart = message.recipient.split("@")[0];
+
+	if (!localPart) {
+		return { status: "invalid_recipient" };
+	}
+
+	// Look up feed
+	const addressedFeed = await findRecipientFeed(env, localPart);
+	if (!addressedFeed) {
+		console.log(`Feed not found for recipient: ${message.recipient}`);
+		return { status: "feed_not_found" };
+	}
+
+	// Sender/subject rules may drop the message, hold it for review or send
+	// it to another feed. Inbox feeds then pass allowed mail to a sub-feed.
+	let { feed, decision } = await applyFeedRules(env, addressedFeed, message);
+	let routeKey: string | undefined;
+	if (feed.inbox && decision.action === "allow") {
+		({ feed, decision, routeKey } = await routeInboxMessage(
+			env,
+			feed,
+			message,
+		));
+	}
+	const feedId = feed.id;
+
+	// Kept for dropped mail too, so unwanted senders can be unsubscribed from
+	const unsubscribe = parseListUnsubscribe(message.headers, message.from.email);
+	if (unsubscribe) {
+		await saveUnsubscribeLink(
+			env.DB,
+			feedId,
+			message.from.email,
+			unsubscribe,
+			message.receivedAt,
+		);
+	}
+
+	if (decision.action === "drop") {
+		console.log(
+			`Dropped email ${message.id} for feed ${feedId} (rule ${decision.ruleId ?? "default"})`,
+		);
+		return { status: "dropped", feedId, ruleId: decision.ruleId };
+	}
+
+	// Retried deliveries and re-sent issues are recorded but not re-published
+	const duplicate = await findDuplicate(env.DATA, feedId, provider, message);
+	if (duplicate) {
+		await recordDuplicate(env.DATA, feedId, {
+			emailId: message.id,
+			duplicateOf: duplicate.emailId,
+			reason: duplicate.reason,
+			subject: message.subject,
+			from: message.from.email,
+			receivedAt: message.receivedAt,
+		});
+		console.log(
+			`Duplicate email ${message.id} for feed ${feedId} (${duplicate.reason} of ${duplicate.emailId})`,
+		);
+		return {
+			status: "duplicate",
+			emailId: message.id,
+			duplicateOf: duplicate.emailId,
+		};
+	}
+
+	// Platform metadata; the issue's canonical URL beats a generic "view in
+	// browser" link
+	const newsletter = extractNewsletterMetadata(message);
+	const webViewLink =
+		newsletter.canonicalUrl ??
+		(message.html ? extractWebViewLink(message.html) : undefined);
+
+	// Double opt-in requests wait for the user instead of reaching the feed
+	const confirmation = detectConfirmation(message);
+
+	// Bodies and attachments go to R2; KV only keeps the metadata. Provider ids
+	// aren't unique across providers, so a taken one is replaced.
+	const emailId = (await env.DATA.get(`email:${message.id}`))
+		? nanoid()
+		: message.id;
+	const bodyKey = await putBody(env.BLOBS, emailId, {
+		html: message.html,
+		text: message.text,
+	});
+	const attachments = await putAttachments(
+		env.BLOBS,
+		emailId,
+		message.attachments ?? [],
+	);
+
+	// Create stored email
+	const storedEmail: StoredEmail = {
+		id: emailId,
+		feedId,
+		subject: message.subject,
+		from: message.from,
+		html: "",
+		text: "",
+		timestamp: message.receivedAt,
+		webViewLink,
+		messageId: normalizeMessageId(message.headers["message-id"]),
+		bodyKey,
+		attachments,
+		routeKey,
+		confirmation,
+		newsletter,
+	};
+
+	// Store email
+	await env.DATA.put(`email:${emailId}`, JSON.stringify(storedEmail));
+
+	const quarantined = !confirmation && decision.action === "quarantine";
+	if (confirmation) {
+		await addPendingConfirmation(
+			env.DB,
+			feed.userId,
+			{
+				emailId,
+				feedId,
+				subject: message.subject,
+				sender: message.from.email,
+				receivedAt: storedEmail.timestamp,
+			},
+			confirmation,
+		);
+		if (feed.autoConfirm && canAutoConfirm(confirmation)) {
+			ctx.waitUntil(autoConfirmSubscription(env, emailId, confirmation.url));
+		}
+	} else if (quarantined) {
+		// Held back until the user releases it from the quarantine list
+		await addQuarantinedEmail(env.DB, feedId, {
+			emailId,
+			ruleId: decision.ruleId,
+			quarantinedAt: new Date().toISOString(),
+		});
+	} else {
+		// Add to the feed's email index. Any legacy KV list is folded in first
+		// so a feed never has entries split between KV and D1.
+		await migrateLegacyFeedIndex(env.DATA, env.DB, feedId);
+		await addFeedEmail(
+			env.DB,
+			feedId,
+			emailId,
+			storedEmail.timestamp,
+			routeKey,
+		);
+		await invalidateRenderedFeed(env.DATA, feed);
+		ctx.waitUntil(publishToSubscribers(env, feed));
+	}
+
+	await rememberMessage(env.DATA, feedId, provider, message, emailId);
+
+	if (!confirmation) {
+		await enqueueWebhooks(
+			env,
+			feed,
+			quarantined ? "email.quarantined" : "email.received",
+			storedEmail,
+			quarantined ? decision.ruleId : undefined,
+		);
+	}
+
+	const note = confirmation
+		? " (awaiting confirmation)"
+		: quarantined
+			? " (quarantined)"
+			: "";
+	console.log(`Stored email ${emailId} for feed ${feedId}${note}`);
+
+	return {
+		status: "stored",
+		emailId,
+		feedId,
+		quarantined,
+		pendingConfirmation: !!confirmation,
+	};
+}
+
+// Scheduled cleanup
+
+// Each run deletes at most this many emails; every email costs a KV delete
+// plus R2 list/delete calls, which count toward the subrequest limit
+const PRUNE_BUDGET = 200;
+const PRUNE_MAX_FEEDS = 50;
+
+async function handleScheduled(env: typeof worker.Env): Promise<void> {
+	try {
+		const result = await pruneExpiredEmails(
+			{ kv: env.DATA, db: env.DB, bucket: env.BLOBS },
+			{ budget: PRUNE_BUDGET, maxFeeds: PRUNE_MAX_FEEDS },
+		);
+		console.log(
+			`Retention cleanup: deleted ${result.deleted} emails across ${result.feeds} feeds`,
+		);
+	} catch (error) {
+		console.error("Retention cleanup error:", error);
+	}
+
+	try {
+		const expired = await removeExpiredSubscriptions(env.DB);
+		console.log(`WebSub cleanup: removed ${expired} expired subscriptions`);
+	} catch (error) {
+		console.error("WebSub cleanup error:", error);
+	}
+
+	try {
+		const pruned = await pruneDeliveryLog(env.DB);
+		console.log(`Webhook log cleanup: removed ${pruned} deliveries`);
+	} catch (error) {
+		console.error("Webhook log cleanup error:", error);
+	}
+
+	try {
+		const pruned = await pruneVerificationFailures(env.DB);
+		console.log(`Webhook failure cleanup: removed ${pruned} rows`);
+	} catch (error) {
+		console.error("Webhook failure cleanup error:", error);
+	}
+}
+
+// Webhook handler
+
+async function handleInboundWebhook(
+	request: Request,
+	env: typeof worker.Env,
+	ctx: ExecutionContext,
+	providerName: string,
+): Promise<Response> {
+	const provider = INBOUND_PROVIDERS[providerName];
+	if (!provider) {
+		return jsonResponse({ error: "Unknown provider" }, 404);
+	}
+
+	try {
+		// Verify webhook signature and normalize the payload
+		const received = await provider.receive(request, env);
+
+		if (received.status === "unauthorized") {
+			console.warn(
+				`Webhook verification failed for ${providerName}: ${received.reason}`,
+			);
+			recordVerificationFailure(
+				env.DB,
+				{
+					provider: providerName,
+					reason: received.reason,
+					ip: request.headers.get("cf-connecting-ip") || "unknown",
+					timestamp: new Date().toISOString(),
+				},
+				(promise) => ctx.waitUntil(promise),
+			);
+			return jsonResponse({ error: "Invalid webhook signature" }, 401);
+		}
+
+		if (received.status === "invalid") {
+			return jsonResponse({ error: received.error }, 400);
+		}
+
+		const result = await ingestMessage(
+			env,
+			ctx,
+			providerName,
+			received.message,
+		);
+
+		if (result.status === "invalid_recipient") {
+			return jsonResponse({ error: "Invalid recipient address" }, 400);
+		}
+
+		if (result.status === "feed_not_found") {
+			return jsonResponse({ error: "Feed not found" }, 404);
+		}
+
+		// Acknowledge duplicates and dropped mail so the provider stops retrying
+		if (result.status === "duplicate") {
+			return jsonResponse({
+				success: true,
+				emailId: result.duplicateOf,
+				duplicate: true,
+			});
+		}
+
+		if (result.status === "dropped") {
+			return jsonResponse({ success: true, dropped: true });
+		}
+
+		return jsonResponse({
+			success: true,
+			emailId: result.emailId,
+			quarantined: result.quarantined,
+			pendingConfirmation: result.pendingConfirmation,
+		});
+	} catch (error) {
+		console.error("Webhook processing error:", error);
+		return jsonResponse({ error: "Failed to process webhook" }, 500);
+	}
+}
+
+// Outbound webhooks
+
+// Logs and queues a delivery for every webhook subscribed to the event.
+// Failures are logged rather than failing the request that stored the email.
+async function enqueueWebhooks(
+	env: typeof worker.Env,
+	feed: Feed,
+	event: WebhookEvent,
+	email: StoredEmail,
+	ruleId?: string,
+): Promise<void> {
+	const webhooks = (feed.webhooks ?? []).filter((webhook) =>
+		webhook.events.includes(event),
+	);
+	if (webhooks.length === 0) {
+		return;
+	}
+
+	const createdAt = new Date().toISOString();
+	const jobs = webhooks.map((webhook): WebhookJob => {
+		const deliveryId = nanoid();
+		return {
+			kind: "webhook",
+			deliveryId,
+			feedId: feed.id,
+			webhookId: webhook.id,
+			payload: {
+				id: deliveryId,
+				event,
+				createdAt,
+				feed: { id: feed.id, name: feed.name, url: feedUrl(feed) },
+				email: {
+					id: email.id,
+					subject: email.subject,
+					from: email.from,
+					timestamp: email.timestamp,
+					webViewLink: email.webViewLink,
+					viewUrl: feedUrl(feed, `/view/${email.id}`),
+					attachments: email.attachments ?? [],
+				},
+				ruleId,
+			},
+		};
+	});
+
+	try {
+		await createDeliveries(env.DB, jobs);
+	} catch (error) {
+		console.error("Webhook enqueue error:", error);
+		return;
+	}
+
+	try {
+		await env.WEBHOOKS.sendBatch(jobs.map((job) => ({ body: job })));
+	} catch (error) {
+		console.error("Webhook enqueue error:", error);
+		await failDeliveries(
+			env.DB,
+			jobs.map((job) => job.deliveryId),
+			"Failed to queue delivery",
+		).catch((logError) => console.error("Webhook log error:", logError));
+	}
+}
+
+// Queue consumer for outbound webhooks and WebSub pushes. Failed attempts are
+// retried with exponential backoff until MAX_DELIVERY_ATTEMPTS.
+async function handleQueue(
+	batch: MessageBatch<QueueJob>,
+	env: typeof worker.Env,
+): Promise<void> {
+	for (const message of batch.messages) {
+		const job = message.body;
+		try {
+			if (job.kind === "websub") {
+				await handleWebSubJob(env, message, job);
+			} else {
+				await handleWebhookJob(env, message, job);
+			}
+		} catch (error) {
+			console.error("Queue delivery error:", error);
+			message.retry({ delaySeconds: retryDelaySeconds(message.attempts) });
+		}
+	}
+}
+
+async function handleWebhookJob(
+	env: typeof worker.Env,
+	message: Message<QueueJob>,
+	job: WebhookJob,
+): Promise<void> {
+	// The webhook (or its feed) may have been deleted since queueing
+	const feed = await env.DATA.get<Feed>(`feed:${job.feedId}`, "json");
+	const webhook = feed?.webhooks?.find(({ id }) => id === job.webhookId);
+	const delaySeconds = await attemptDelivery(
+		env.DB,
+		webhook,
+		job,
+		message.attempts,
+	);
+	if (delaySeconds === undefined) {
+		message.ack();
+	} else {
+		message.retry({ delaySeconds });
+	}
+}
+
+// Sends the feed's current document to one subscriber, so a retry after more
+// mail arrived pushes the newer feed
+async function handleWebSubJob(
+	env: typeof worker.Env,
+	message: Message<QueueJob>,
+	job: WebSubJob,
+): Promise<void> {
+	// The feed may have been deleted, or the subscriber gone, since queueing
+	const feed = await env.DATA.get<Feed>(`feed:${job.feedId}`, "json");
+	const subscription =
+		feed && (await getActiveSubscription(env.DB, job.topic, job.callback));
+	if (!feed || !subscription) {
+		message.ack();
+		return;
+	}
+
+	// Topics of private feeds stop working when the token is rotated
+	const topic = parseTopic(subscription.topic);
+	if (!topic || !hasFeedAccess(feed, topic.token)) {
+		await removeSubscription(env.DB, subscription.topic, subscription.callback);
+		message.ack();
+		return;
+	}
+
+	const sequence = await getFeedSequence(env.DB, feed.id);
+	const document = await loadFeedDocument(
+		env,
+		feed,
+		subscription.format,
+		sequence,
+	);
+	const result = await deliverContent(
+		subscription,
+		document.body,
+		FEED_CONTENT_TYPES[subscription.format],
+	);
+
+	if (result === "gone") {
+		await removeSubscription(env.DB, subscription.topic, subscription.callback);
+	}
+	if (result === "failed" && message.attempts < MAX_DELIVERY_ATTEMPTS) {
+		message.retry({ delaySeconds: retryDelaySeconds(message.attempts) });
+	} else {
+		message.ack();
+	}
+}
+
+// WebSub hub
+
+async function handleWebSubRequest(
+	request: Request,
+	env: typeof worker.Env,
+	ctx: ExecutionContext,
+): Promise<Response> {
+	try {
+		const form = await request.formData().catch(() => null);
+		if (!form) {
+			return jsonResponse(
+				{ error: "Expected an application/x-www-form-urlencoded body" },
+				400,
+			);
+		}
+
+		const parsed = parseSubscriptionRequest(form);
+		if (parsed.status === "invalid") {
+			return jsonResponse({ error: parsed.error }, 400);
+		}
+
+		const { request: hubRequest, topic } = parsed;
+
+		// Subscribing needs the same access as reading the feed
+		if (hubRequest.mode === "subscribe") {
+			const feed = await env.DATA.get<Feed>(`feed:${topic.feedId}`, "json");
+			if (!feed || !hasFeedAccess(feed, topic.token)) {
+				return jsonResponse({ error: "Topic not found" }, 404);
+			}
+		}
+
+		// Intent is verified after responding, as the spec requires
+		ctx.waitUntil(
+			(async () => {
+				if (!(await verifyIntent(hubRequest))) {
+					return;
+				}
+
+				if (hubRequest.mode === "unsubscribe") {
+					await removeSubscription(
+						env.DB,
+						hubRequest.topic,
+						hubRequest.callback,
+					);
+					return;
+				}
+
+				await saveSubscription(env.DB, {
+					topic: hubRequest.topic,
+					callback: hubRequest.callback,
+					feedId: topic.feedId,
+					format: topic.format,
+					secret: hubRequest.secret,
+					expiresAt: new Date(
+						Date.now() + hubRequest.leaseSeconds * 1000,
+					).toISOString(),
+				});
+			})().catch((error) => console.error("WebSub verification error:", error)),
+		);
+
+		return new Response(null, { status: 202 });
+	} catch (error) {
+		console.error("WebSub request error:", error);
+		return jsonResponse({ error: "Failed to process hub request" }, 500);
+	}
+}
+
+// Queues.sendBatch takes at most 100 messages
+const QUEUE_BATCH_SIZE = 100;
+
+// Queues a push of the feed's current document to every active subscriber
+async function publishToSubscribers(
 	env: typeof worker.Env,
-): Promise<Response> {
-	// Verify webhook signature
-	const webhookToken = request.headers.get("x-webhook-verification-token");
-	if (webhookToken !== env.WEBHOOK_SECRET) {
-		return jsonResponse({ error: "Invalid webhook signature" }, 401);
+	feed: Feed,
+): Promise<void> {
+	try {
+		const subscriptions = await listActiveSubscriptions(env.DB, feed.id);
+		const jobs = subscriptions.map(
+			(subscription): WebSubJob => ({
+				kind: "websub",
+				feedId: feed.id,
+				topic: subscription.topic,
+				callback: subscription.callback,
+			}),
+		);
+		for (let i = 0; i < jobs.length; i += QUEUE_BATCH_SIZE) {
+			await env.WEBHOOKS.sendBatch(
+				jobs.slice(i, i + QUEUE_BATCH_SIZE).map((job) => ({ body: job })),
+			);
+		}
+	} catch (error) {
+		console.error("WebSub publish error:", error);
 	}
+}
+
+// Email Routing handler
 
+async function handleIncomingEmail(
+	message: ForwardableEmailMessage,
+	env: typeof worker.Env,
+	ctx: ExecutionContext,
+): Promise<void> {
 	try {
-		const payload: InboundWebhookPayload = await request.json();
+		const raw = new Uint8Array(await new Response(message.raw).arrayBuffer());
+		const parsed = parseMail(raw);
 
-		// Extract feed ID from recipient address
-		// Format: {feed-id}@unletter.app
-		const recipient = payload.email.recipient;
-		const feedId = recipient.split("@")[0];
+		const result = await ingestMessage(env, ctx, "email", {
+			id: nanoid(),
+			recipient: message.to,
+			from: parsed.from ?? { name: "", email: message.from },
+			subject: parsed.subject,
+			receivedAt: new Date().toISOString(),
+			html: parsed.html,
+			text: parsed.text,
+			headers: parsed.headers,
+			attachments: parsed.attachments,
+		});
 
-		if (!feedId) {
-			return jsonResponse({ error: "Invalid recipient address" }, 400);
+		if (
+			result.status === "invalid_recipient" ||
+			result.status === "feed_not_found"
+		) {
+			message.setReject("Unknown recipient");
 		}
+	} catch (error) {
+		console.error("Email processing error:", error);
+		message.setReject("Failed to process message");
+	}
+}
 
-		// Look up feed
+// RSS/Atom/JSON feed handler
+
+async function handleGetFeed(
+	request: Request,
+	env: typeof worker.Env,
+	feedId: string,
+	format: FeedFormat,
+	archive?: { from: string; to: string },
+): Promise<Response> {
+	try {
+		// Get feed metadata
 		const feedData = await env.DATA.get(`feed:${feedId}`);
 		if (!feedData) {
-			console.log(`Feed not found for recipient: ${recipient}`);
 			return jsonResponse({ error: "Feed not found" }, 404);
 		}
 
-		// Extract sender info
-		const fromAddress = payload.email.from.addresses[0];
-		const fromName = fromAddress?.name || "";
-		const fromEmail = fromAddress?.address || payload.email.from.text;
+		const feed: Feed = JSON.parse(feedData);
 
-		// Extract web view link from HTML
-		const webViewLink = payload.email.parsedData.htmlBody
-			? extractWebViewLink(payload.email.parsedData.htmlBody)
-			: undefined;
+		// Private feeds look the same as missing ones without the right token
+		const token = new URL(request.url).searchParams.get("token");
+		if (!hasFeedAccess(feed, token)) {
+			return jsonResponse({ error: "Feed not found" }, 404);
+		}
 
-		// Create stored email
-		const emailId = payload.email.id;
-		const storedEmail: StoredEmail = {
-			id: emailId,
-			feedId,
-			subject: payload.email.subject,
-			from: {
-				name: fromName,
-				email: fromEmail,
-			},
-			html: payload.email.parsedData.htmlBody || "",
-			text: payload.email.parsedData.textBody || "",
-			timestamp: payload.email.receivedAt,
-			webViewLink,
-		};
+		let sequence = await getFeedSequence(env.DB, feedId);
+
+		// Feeds that haven't received mail since the D1 move still have their
+		// list in KV; migrate it on first read
+		if (sequence === 0) {
+			await migrateLegacyFeedIndex(env.DATA, env.DB, feedId);
+			sequence = await getFeedSequence(env.DB, feedId);
+		}
 
-		// Store email
-		await env.DATA.put(`email:${emailId}`, JSON.stringify(storedEmail));
+		let document: FeedDocument;
+		if (archive) {
+			const range = parseArchiveRange(archive.from, archive.to, sequence);
+			if (!range) {
+				return jsonResponse({ error: "Archive page not found" }, 404);
+			}
+			document = await renderFeed(env, feed, format, sequence, range);
+		} else {
+			document = await loadFeedDocument(env, feed, format, sequence);
+		}
 
-		// Update feed's email list (prepend to keep newest first)
-		const emailListData = await env.DATA.get(`feed:${feedId}:emails`);
-		const emailIds: string[] = emailListData ? JSON.parse(emailListData) : [];
-		emailIds.unshift(emailId);
-		await env.DATA.put(`feed:${feedId}:emails`, JSON.stringify(emailIds));
+		// An archive page with both neighbours in place gets no new emails
+		const headers = {
+			etag: document.etag,
+			"last-modified": document.renderedAt,
+			"cache-control": feedCacheControl(
+				feed,
+				document.complete ? ARCHIVE_MAX_AGE : 300,
+			),
+			"access-control-allow-origin": "*",
+		};
 
-		console.log(`Stored email ${emailId} for feed ${feedId}`);
+		if (isNotModified(request.headers, document.etag, document.renderedAt)) {
+			return new Response(null, { status: 304, headers });
+		}
 
-		return jsonResponse({ success: true, emailId });
+		return new Response(document.body, {
+			headers: { ...headers, "content-type": FEED_CONTENT_TYPES[format] },
+		});
 	} catch (error) {
-		console.error("Webhook processing error:", error);
-		return jsonResponse({ error: "Failed to process webhook" }, 500);
+		console.error("Feed generation error:", error);
+		return jsonResponse({ error: "Failed to generate feed" }, 500);
 	}
 }
 
-// RSS/Atom feed handler
+interface FeedDocument extends RenderedFeed {
+	complete: boolean;
+}
 
-async function handleGetFeed(
+// The subscription document, from the rendered cache when possible. The
+// sequence check catches a render that raced an ingest and was stored after
+// the ingest invalidated the cache.
+async function loadFeedDocument(
 	env: typeof worker.Env,
-	feedId: string,
+	feed: Feed,
+	format: FeedFormat,
+	sequence: number,
+): Promise<FeedDocument> {
+	const cached = await getRenderedFeed(env.DATA, feed.id, format);
+	// Entries cached before renderedAt was stored are rendered again
+	if (cached?.sequence === sequence && cached.renderedAt) {
+		return { ...cached, complete: false };
+	}
+
+	const document = await renderFeed(env, feed, format, sequence);
+	await putRenderedFeed(env.DATA, feed.id, format, {
+		body: document.body,
+		etag: document.etag,
+		renderedAt: document.renderedAt,
+		sequence: document.sequence,
+	});
+	return document;
+}
+
+// Builds the subscription document (no archive) or an archive page
+async function renderFeed(
+	env: typeof worker.Env,
+	feed: Feed,
+	format: FeedFormat,
+	sequence: number,
+	archive?: ArchiveRange,
+): Promise<FeedDocument> {
+	// The subscription document shows the newest page and points at the
+	// newest complete archive page; archive pages point at each other
+	const pageSize = feedPageSize(feed);
+	let range: ArchiveRange;
+	let links: ArchiveLinks;
+	if (archive) {
+		range = archive;
+		const { prev, next } = archiveNeighbours(range, sequence, pageSize);
+		links = {
+			current: feedUrl(feed, `/${format}`),
+			prev: prev && feedUrl(feed, archivePath(prev, format)),
+			next: next && feedUrl(feed, archivePath(next, format)),
+		};
+	} else {
+		range = currentRange(sequence, pageSize);
+		const prev = newestArchive(sequence, pageSize);
+		links = { prev: prev && feedUrl(feed, archivePath(prev, format)) };
+	}
+	const selfUrl = feedUrl(
+		feed,
+		archive ? archivePath(range, format) : `/${format}`,
+	);
+
+	const emailIds = await listFeedEmailRange(
+		env.DB,
+		feed.id,
+		range.from,
+		range.to,
+	);
+	const emails = await getEmails(env.DATA, emailIds);
+	const items = await prepareFeedItems(
+		env,
+		emails.map((email) => ({ feed, email })),
+	);
+
+	const output = writeFeedDocument(format, items, {
+		id: `https://unletter.app/feeds/${feed.id}`,
+		title: feed.name,
+		description: feed.description || `Newsletter feed: ${feed.name}`,
+		homeUrl: feedUrl(feed),
+		selfUrl,
+		links,
+		hub: true,
+		archive: !!archive,
+		labelSources: false,
+		icon: items.find((item) => item.logo)?.logo,
+	});
+
+	return {
+		body: output,
+		etag: await computeEtag(output),
+		renderedAt: await getRenderedAt(env.DATA, feed.id),
+		sequence,
+		complete: !!archive && !!links.next,
+	};
+}
+
+interface FeedItem {
+	feed: Feed;
+	email: StoredEmail;
+	body: EmailBody;
+	content: string;
+	attachments: EmailAttachment[];
+	// Proxied hero image and publication logo
+	image?: string;
+	logo?: string;
+}
+
+// Loads bodies and sanitizes them with each email's own feed settings
+async function prepareFeedItems(
+	env: typeof worker.Env,
+	entries: { feed: Feed; email: StoredEmail }[],
+): Promise<FeedItem[]> {
+	// Email HTML is stored as received and sanitized on the way out
+	return Promise.all(
+		entries.map(async ({ feed, email }) => {
+			const body = await getBody(env.BLOBS, email);
+			return {
+				feed,
+				email,
+				body,
+				content: await sanitizeHtml(body.html, {
+					stripTracking: feed.stripTracking ?? true,
+					proxyImageUrl: (url: string) =>
+						signImageUrl(url, env.IMAGE_PROXY_SECRET),
+					resolveContentId: inlineAttachmentResolver(feed, email),
+				}),
+				attachments: (email.attachments ?? []).filter(
+					(attachment) => !attachment.inline,
+				),
+				image: await proxyImage(env, email.newsletter?.heroImageUrl),
+				logo: await proxyImage(env, email.newsletter?.logoUrl),
+			};
+		}),
+	);
+}
+
+async function proxyImage(
+	env: typeof worker.Env,
+	url: string | undefined,
+): Promise<string | undefined> {
+	return url && signImageUrl(url, env.IMAGE_PROXY_SECRET);
+}
+
+// Document-level fields of a feed or aggregate
+interface FeedChannel {
+	id: string;
+	title: string;
+	description: string;
+	homeUrl: string;
+	selfUrl: string;
+	links: ArchiveLinks;
+	// Advertise the WebSub hub
+	hub: boolean;
+	// Mark the document as an RFC 5005 archive page
+	archive: boolean;
+	// Tag each item with the feed it came from
+	labelSources: boolean;
+	// Publication logo, used as the feed's icon
+	icon?: string;
+}
+
+function writeFeedDocument(
+	format: FeedFormat,
+	items: FeedItem[],
+	channel: FeedChannel,
+): string {
+	if (format === "json") {
+		const jsonFeed: JsonFeed = {
+			version: JSON_FEED_VERSION,
+			title: channel.title,
+			home_page_url: channel.homeUrl,
+			feed_url: channel.selfUrl,
+			next_url: channel.links.prev,
+			description: channel.description,
+			icon: channel.icon,
+			favicon: channel.icon,
+			language: "en",
+			hubs: channel.hub ? [{ type: "WebSub", url: HUB_URL }] : undefined,
+			items: items.map(
+				({ feed, email, body, content, attachments, image }) => ({
+					// Ids stay stable when the access token is rotated
+					id: `https://unletter.app/feeds/${feed.id}/view/${email.id}`,
+					url:
+						email.newsletter?.canonicalUrl ??
+						feedUrl(feed, `/view/${email.id}`),
+					external_url: email.webViewLink
+						? (feed.stripTracking ?? true)
+							? cleanTrackingUrl(email.webViewLink)
+							: email.webViewLink
+						: undefined,
+					title: email.subject,
+					content_html: content,
+					content_text: body.text || undefined,
+					summary: email.newsletter?.preheader,
+					image,
+					date_published: new Date(email.timestamp).toISOString(),
+					authors: [{ name: itemAuthor(email) }],
+					tags: channel.labelSources ? [feed.name] : undefined,
+					attachments:
+						attachments.length > 0
+							? attachments.map((attachment) => ({
+									url: attachmentUrl(feed, email.id, attachment.id),
+									mime_type: attachment.contentType,
+									title: attachment.filename,
+									size_in_bytes: attachment.size,
+								}))
+							: undefined,
+				}),
+			),
+		};
+		return JSON.stringify(jsonFeed);
+	}
+
+	const newest = items[0]?.email.timestamp;
+	const rssFeed = new RSSFeed({
+		title: channel.title,
+		description: channel.description,
+		id: channel.id,
+		link: channel.homeUrl,
+		feedLinks: { [format]: channel.selfUrl },
+		language: "en",
+		updated: newest ? new Date(newest) : new Date(),
+		generator: "unletter",
+		image: channel.icon,
+		favicon: channel.icon,
+		copyright: "",
+	});
+
+	for (const { feed, email, body, content, attachments, image } of items) {
+		// RSS allows a single enclosure per item; attachments come before the
+		// hero image
+		const enclosure = attachments[0];
+		const imageType =
+			email.newsletter?.heroImageUrl &&
+			imageTypeFromUrl(email.newsletter.heroImageUrl);
+
+		rssFeed.addItem({
+			title: email.subject,
+			id: `https://unletter.app/feeds/${feed.id}/view/${email.id}`,
+			link:
+				email.newsletter?.canonicalUrl ?? feedUrl(feed, `/view/${email.id}`),
+			description: email.newsletter?.preheader ?? body.text.slice(0, 500),
+			content,
+			author: [{ name: itemAuthor(email) }],
+			date: new Date(email.timestamp),
+			category: channel.labelSources
+				? [sourceCategory(feed, format)]
+				: undefined,
+			enclosure: enclosure
+				? {
+						url: attachmentUrl(feed, email.id, enclosure.id),
+						type: enclosure.contentType,
+						length: enclosure.size,
+						title: enclosure.filename,
+					}
+				: image && imageType
+					? { url: image, type: imageType, length: 0 }
+					: undefined,
+		});
+	}
+
+	return addFeedLinks(
+		format === "atom" ? rssFeed.atom1() : rssFeed.rss2(),
+		format,
+		{
+			hub: channel.hub ? HUB_URL : undefined,
+			...archiveFeedLinks(channel.links),
+		},
+		channel.archive ? [ARCHIVE_ELEMENT] : [],
+	);
+}
+
+// The post's byline when the platform names one, otherwise the sender
+function itemAuthor(email: StoredEmail): string {
+	return email.newsletter?.author || email.from.name || email.from.email;
+}
+
+// The feed library escapes RSS category text but writes Atom's term and
+// label attributes as given
+function sourceCategory(
+	feed: Feed,
 	format: "rss" | "atom",
+): { name: string; term?: string; domain?: string } {
+	if (format === "atom") {
+		const name = escapeHtml(feed.name);
+		return { name, term: name };
+	}
+	return { name: feed.name, domain: feedUrl(feed) };
+}
+
+// Aggregate feeds
+
+async function handleGetAggregate(
+	request: Request,
+	env: typeof worker.Env,
+	userId: string,
+	folderSegment: string | undefined,
+	format: FeedFormat,
 ): Promise<Response> {
 	try {
-		// Get feed metadata
-		const feedData = await env.DATA.get(`feed:${feedId}`);
-		if (!feedData) {
+		// Like private feeds, aggregates look missing without the right token
+		const user = await env.DATA.get<User>(`user:${userId}`, "json");
+		const token = new URL(request.url).searchParams.get("token");
+		if (
+			!user?.aggregateToken ||
+			!token ||
+			!timingSafeEqual(token, user.aggregateToken)
+		) {
 			return jsonResponse({ error: "Feed not found" }, 404);
 		}
 
-		const feed: Feed = JSON.parse(feedData);
+		let folder: string | undefined;
+		try {
+			folder = folderSegment && decodeURIComponent(folderSegment);
+		} catch {
+			return jsonResponse({ error: "Folder not found" }, 404);
+		}
 
-		// Get email list (limit to 50 most recent)
-		const emailListData = await env.DATA.get(`feed:${feedId}:emails`);
-		const emailIds: string[] = emailListData
-			? JSON.parse(emailListData).slice(0, 50)
-			: [];
-
-		// Fetch emails
-		const emails: StoredEmail[] = [];
-		for (const emailId of emailIds) {
-			const emailData = await env.DATA.get(`email:${emailId}`);
-			if (emailData) {
-				emails.push(JSON.parse(emailData));
+		const renderedAt = await getAggregateRenderedAt(env.DATA, userId);
+		let rendered = await getRenderedAggregate(env.DATA, userId, folder, format);
+		if (rendered?.renderedAt !== renderedAt) {
+			const render = await renderAggregate(
+				env,
+				userId,
+				user.aggregateToken,
+				folder,
+				format,
+			);
+			if (!render) {
+				return jsonResponse({ error: "Folder not found" }, 404);
 			}
+			rendered = { ...render, renderedAt };
+			await putRenderedAggregate(env.DATA, userId, folder, format, rendered);
 		}
 
-		// Build feed
-		const rssFeed = new RSSFeed({
-			title: feed.name,
-			description: `Newsletter feed: ${feed.name}`,
-			id: `https://unletter.app/feeds/${feedId}`,
-			link: `https://unletter.app/feeds/${feedId}`,
-			language: "en",
-			updated: emails.length > 0 ? new Date(emails[0].timestamp) : new Date(),
-			generator: "unletter",
-			copyright: "",
+		const lastModified = new Date(rendered.renderedAt).toUTCString();
+		const headers = {
+			etag: rendered.etag,
+			"last-modified": lastModified,
+			"cache-control": "private, max-age=300",
+			"access-control-allow-origin": "*",
+		};
+
+		if (isNotModified(request.headers, rendered.etag, lastModified)) {
+			return new Response(null, { status: 304, headers });
+		}
+
+		return new Response(rendered.body, {
+			headers: { ...headers, "content-type": FEED_CONTENT_TYPES[format] },
 		});
+	} catch (error) {
+		console.error("Aggregate feed error:", error);
+		return jsonResponse({ error: "Failed to generate feed" }, 500);
+	}
+}
 
-		for (const email of emails) {
-			rssFeed.addItem({
-				title: email.subject,
-				id: `https://unletter.app/feeds/${feedId}/view/${email.id}`,
-				link: `https://unletter.app/feeds/${feedId}/view/${email.id}`,
-				description: email.text.slice(0, 500),
-				content: email.html,
-				author: [{ name: email.from.name || email.from.email }],
-				date: new Date(email.timestamp),
-			});
+// Renders the aggregate of the user's feeds, or of one folder's. Undefined
+// when no feed is in the folder.
+async function renderAggregate(
+	env: typeof worker.Env,
+	userId: string,
+	aggregateToken: string,
+	folder: string | undefined,
+	format: FeedFormat,
+): Promise<{ body: string; etag: string } | undefined> {
+	const userFeeds = await loadUserFeeds(env, userId);
+	const feeds = folder
+		? userFeeds.filter((feed) => feed.folders?.includes(folder))
+		: userFeeds;
+	if (folder && feeds.length === 0) {
+		return undefined;
+	}
+
+	const refs = await listNewestFeedEmails(
+		env.DB,
+		feeds.map((feed) => feed.id),
+		DEFAULT_FEED_PAGE_SIZE,
+	);
+	const emails = await getEmails(
+		env.DATA,
+		refs.map((ref) => ref.emailId),
+	);
+	const feedsById = new Map(feeds.map((feed) => [feed.id, feed]));
+	const items = await prepareFeedItems(
+		env,
+		emails.flatMap((email) => {
+			const feed = feedsById.get(email.feedId);
+			return feed ? [{ feed, email }] : [];
+		}),
+	);
+
+	// Ids stay stable when the aggregate token is rotated
+	const homeUrl = aggregateUrl(userId, aggregateToken, folder);
+	const body = writeFeedDocument(format, items, {
+		id: homeUrl.slice(0, homeUrl.indexOf("?")),
+		title: folder ?? "All feeds",
+		description: `Newsletters from ${feeds.length} feed${feeds.length === 1 ? "" : "s"}`,
+		homeUrl,
+		selfUrl: aggregateUrl(userId, aggregateToken, folder, `/${format}`),
+		links: {},
+		hub: false,
+		archive: false,
+		labelSources: true,
+	});
+
+	return { body, etag: await computeEtag(body) };
+}
+
+function aggregatesResponse(userId: string, token: string, feeds: Feed[]) {
+	return {
+		url: aggregateUrl(userId, token),
+		folders: listFolders(feeds).map(({ name, feedIds }) => ({
+			name,
+			feedIds,
+			url: aggregateUrl(userId, token, name),
+		})),
+	};
+}
+
+async function handleGetAggregates(
+	request: Request,
+	env: typeof worker.Env,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const user = await env.DATA.get<User>(`user:${auth.userId}`, "json");
+		if (!user) {
+			return jsonResponse({ error: "User not found" }, 404);
 		}
 
-		const contentType =
-			format === "atom"
-				? "application/atom+xml; charset=utf-8"
-				: "application/rss+xml; charset=utf-8";
+		// The token is issued the first time the aggregate URLs are asked for
+		let token = user.aggregateToken;
+		if (!token) {
+			token = generateAccessToken();
+			await env.DATA.put(
+				`user:${user.id}`,
+				JSON.stringify({ ...user, aggregateToken: token }),
+			);
+		}
 
-		const output = format === "atom" ? rssFeed.atom1() : rssFeed.rss2();
+		const feeds = await loadUserFeeds(env, user.id);
+		return jsonResponse(aggregatesResponse(user.id, token, feeds));
+	} catch (error) {
+		console.error("Get aggregates error:", error);
+		return jsonResponse({ error: "Failed to get aggregate feeds" }, 500);
+	}
+}
 
-		return new Response(output, {
-			headers: {
-				"content-type": contentType,
-				"cache-control": "public, max-age=300",
-				"access-control-allow-origin": "*",
-			},
-		});
+async function handleRotateAggregateToken(
+	request: Request,
+	env: typeof worker.Env,
+): Promise<Response> {
+	const auth = await authenticateRequest(request, env);
+	if (auth instanceof Response) return auth;
+
+	try {
+		const user = await env.DATA.get<User>(`user:${auth.userId}`, "json");
+		if (!user) {
+			return jsonResponse({ error: "User not found" }, 404);
+		}
+
+		const token = generateAccessToken();
+		await env.DATA.put(
+			`user:${user.id}`,
+			JSON.stringify({ ...user, aggregateToken: token }),
+		);
+		// Cached aggregates link to themselves with the old token
+		await invalidateAggregates(env.DATA, user.id);
+
+		const feeds = await loadUserFeeds(env, user.id);
+		return jsonResponse(aggregatesResponse(user.id, token, feeds));
 	} catch (error) {
-		console.error("Feed generation error:", error);
-		return jsonResponse({ error: "Failed to generate feed" }, 500);
+		console.error("Rotate aggregate token error:", error);
+		return jsonResponse({ error: "Failed to rotate token" }, 500);
 	}
 }
 
 // Web view handler
 
+// Hidden, quarantined and unconfirmed emails aren't in the feed's index, so
+// the public routes treat them as missing
+async function isPublishedEmail(
+	env: typeof worker.Env,
+	feedId: string,
+	emailId: string,
+): Promise<boolean> {
+	let entry = await getFeedEmail(env.DB, feedId, emailId);
+	if (!entry) {
+		// Feeds that haven't received mail since the D1 move list it in KV
+		await migrateLegacyFeedIndex(env.DATA, env.DB, feedId);
+		entry = await getFeedEmail(env.DB, feedId, emailId);
+	}
+	return !!entry && !entry.hidden;
+}
+
 async function handleWebView(
 	env: typeof worker.Env,
 	feedId: string,
 	emailId: string,
+	token: string | null,
 ): Promise<Response> {
 	try {
 		// Get email
@@ -638,6 +4095,25 @@ async function handleWebView(
 			return new Response("Email not found", { status: 404 });
 		}
 
+		const feedData = await env.DATA.get(`feed:${feedId}`);
+		if (!feedData) {
+			return new Response("Email not found", { status: 404 });
+		}
+
+		const feed: Feed = JSON.parse(feedData);
+		if (
+			!hasFeedAccess(feed, token) ||
+			!(await isPublishedEmail(env, feedId, emailId))
+		) {
+			return new Response("Email not found", { status: 404 });
+		}
+
+		const stripTracking = feed.stripTracking ?? true;
+		const webViewLink =
+			email.webViewLink && stripTracking
+				? cleanTrackingUrl(email.webViewLink)
+				: email.webViewLink;
+
 		// Format date
 		const date = new Date(email.timestamp).toLocaleDateString("en-US", {
 			weekday: "long",
@@ -646,6 +4122,27 @@ async function handleWebView(
 			day: "numeric",
 		});
 
+		const body = await getBody(env.BLOBS, email);
+		const content = body.html
+			? await sanitizeHtml(body.html, {
+					stripTracking,
+					proxyImageUrl: (url) => signImageUrl(url, env.IMAGE_PROXY_SECRET),
+					resolveContentId: inlineAttachmentResolver(feed, email),
+				})
+			: `<pre>${escapeHtml(body.text)}</pre>`;
+
+		const downloads = (email.attachments ?? []).filter(
+			(attachment) => !attachment.inline,
+		);
+		const attachmentList = downloads.length
+			? `<ul class="attachments">${downloads
+					.map(
+						(attachment) =>
+							`<li><a href="${escapeHtml(attachmentUrl(feed, email.id, attachment.id))}">${escapeHtml(attachment.filename)}</a> (${formatBytes(attachment.size)})</li>`,
+					)
+					.join("")}</ul>`
+			: "";
+
 		// Build HTML page
 		const html = `<!DOCTYPE html>
 <html lang="en">
@@ -700,6 +4197,16 @@ async function handleWebView(
 			max-width: 100%;
 			height: auto;
 		}
+		.attachments {
+			max-width: 800px;
+			margin: 0 auto;
+			padding: 1rem 1rem 1rem 2.25rem;
+			border-top: 1px solid var(--border);
+			font-size: 0.875rem;
+		}
+		.attachments a {
+			color: var(--accent);
+		}
 		.footer {
 			max-width: 800px;
 			margin: 0 auto;
@@ -722,12 +4229,13 @@ async function handleWebView(
 		<p class="meta">
 			From: ${escapeHtml(email.from.name || email.from.email)}<br>
 			${date}
-			${email.webViewLink ? `<br><a href="${escapeHtml(email.webViewLink)}" target="_blank" rel="noopener">View original</a>` : ""}
+			${webViewLink ? `<br><a href="${escapeHtml(webViewLink)}" target="_blank" rel="noopener">View original</a>` : ""}
 		</p>
 	</header>
 	<main class="content">
-		${email.html || `<pre>${escapeHtml(email.text)}</pre>`}
+		${content}
 	</main>
+	${attachmentList}
 	<footer class="footer">
 		<p>Delivered by <a href="https://unletter.app">unletter</a></p>
 	</footer>
@@ -737,7 +4245,10 @@ async function handleWebView(
 		return new Response(html, {
 			headers: {
 				"content-type": "text/html; charset=utf-8",
-				"cache-control": "public, max-age=3600",
+				"cache-control": feedCacheControl(feed, 3600),
+				"content-security-policy": WEB_VIEW_CSP,
+				"x-content-type-options": "nosniff",
+				"referrer-policy": "no-referrer",
 			},
 		});
 	} catch (error) {
@@ -746,6 +4257,174 @@ async function handleWebView(
 	}
 }
 
+// Attachment handler
+
+function attachmentUrl(
+	feed: Feed,
+	emailId: string,
+	attachmentId: string,
+): string {
+	return feedUrl(feed, `/attachments/${emailId}/${attachmentId}`);
+}
+
+// Resolves cid: references in an email to its inline attachments
+function inlineAttachmentResolver(
+	feed: Feed,
+	email: StoredEmail,
+): (contentId: string) => string | undefined {
+	return (contentId) => {
+		let id = contentId;
+		try {
+			id = decodeURIComponent(contentId);
+		} catch {
+			// Use the reference as written
+		}
+
+		const attachment = email.attachments?.find(
+			(candidate) => candidate.contentId === id,
+		);
+		return attachment && attachmentUrl(feed, email.id, attachment.id);
+	};
+}
+
+async function handleAttachment(
+	env: typeof worker.Env,
+	feedId: string,
+	emailId: string,
+	attachmentId: string,
+	token: string | null,
+): Promise<Response> {
+	try {
+		const emailData = await env.DATA.get(`email:${emailId}`);
+		if (!emailData) {
+			return new Response("Attachment not found", { status: 404 });
+		}
+
+		const email: StoredEmail = JSON.parse(emailData);
+		const attachment = email.attachments?.find(
+			(candidate) => candidate.id === attachmentId,
+		);
+		if (email.feedId !== feedId || !attachment) {
+			return new Response("Attachment not found", { status: 404 });
+		}
+
+		const feed = await env.DATA.get<Feed>(`feed:${feedId}`, "json");
+		if (
+			!feed ||
+			!hasFeedAccess(feed, token) ||
+			!(await isPublishedEmail(env, feedId, emailId))
+		) {
+			return new Response("Attachment not found", { status: 404 });
+		}
+
+		const object = await getAttachment(env.BLOBS, emailId, attachmentId);
+		if (!object) {
+			return new Response("Attachment not found", { status: 404 });
+		}
+
+		// Only raster images are displayed in place; everything else is a
+		// download, sandboxed in case it's HTML served from our origin
+		const displayInline = ALLOWED_IMAGE_TYPES.has(attachment.contentType);
+
+		return new Response(object.body, {
+			headers: {
+				"content-type": attachment.contentType || "application/octet-stream",
+				"content-length": String(attachment.size),
+				"content-disposition": contentDisposition(
+					displayInline ? "inline" : "attachment",
+					attachment.filename,
+				),
+				"content-security-policy": "sandbox",
+				"x-content-type-options": "nosniff",
+				"cache-control": `${feedCacheControl(feed, 604800)}, immutable`,
+				"access-control-allow-origin": "*",
+			},
+		});
+	} catch (error) {
+		console.error("Attachment error:", error);
+		return new Response("Error loading attachment", { status: 500 });
+	}
+}
+
+// Image proxy handler
+
+async function handleImageProxy(
+	request: Request,
+	env: typeof worker.Env,
+	ctx: ExecutionContext,
+	signature: string,
+	encodedUrl: string,
+): Promise<Response> {
+	const imageUrl = await verifyImageUrl(
+		signature,
+		encodedUrl,
+		env.IMAGE_PROXY_SECRET,
+	);
+	if (!imageUrl) {
+		return new Response("Invalid image signature", { status: 403 });
+	}
+
+	const cache = await caches.open("images");
+	const cacheKey = new Request(request.url, { method: "GET" });
+	const cached = await cache.match(cacheKey);
+	if (cached) {
+		return cached;
+	}
+
+	try {
+		// Fetch without forwarding anything about the reader
+		const upstream = await fetch(imageUrl, {
+			headers: {
+				"user-agent": "unletter-image-proxy (+https://unletter.app)",
+				accept: "image/*",
+			},
+			redirect: "follow",
+		});
+
+		if (!upstream.ok) {
+			return new Response("Image not available", { status: 502 });
+		}
+
+		const contentType = (upstream.headers.get("content-type") ?? "")
+			.split(";")[0]
+			.trim()
+			.toLowerCase();
+		if (!ALLOWED_IMAGE_TYPES.has(contentType)) {
+			await upstream.body?.cancel();
+			return new Response("Unsupported image type", { status: 415 });
+		}
+
+		const declaredLength = Number(upstream.headers.get("content-length"));
+		if (declaredLength > MAX_IMAGE_BYTES) {
+			await upstream.body?.cancel();
+			return new Response("Image too large", { status: 413 });
+		}
+
+		const body = await readLimitedBody(upstream, MAX_IMAGE_BYTES);
+		if (!body) {
+			return new Response("Image too large", { status: 413 });
+		}
+
+		const response = new Response(body, {
+			headers: {
+				"content-type": contentType,
+				"content-length": String(body.byteLength),
+				"cache-control": "public, max-age=604800, immutable",
+				"content-security-policy": "default-src 'none'",
+				"x-content-type-options": "nosniff",
+				"access-control-allow-origin": "*",
+			},
+		});
+
+		ctx.waitUntil(cache.put(cacheKey, response.clone()));
+
+		return response;
+	} catch (error) {
+		console.error("Image proxy error:", error);
+		return new Response("Image not available", { status: 502 });
+	}
+}
+
 function escapeHtml(str: string): string {
 	return str
 		.replace(/&/g, "&amp;")